@@ -0,0 +1,91 @@
+import type { IHostedService } from './types.js';
+
+/**
+ * Base class for hosted services that run a long-running task, such as a queue consumer or a
+ * polling loop, for the lifetime of the host.
+ *
+ * The task is started without being awaited, so the host can start the next service. When the host
+ * stops, the signal passed to the task is aborted and the host waits for the task to finish. An
+ * error thrown by the task is rethrown when the service is stopped, except for an `AbortError`
+ * thrown because the signal was aborted.
+ *
+ * @implements {IHostedService}
+ *
+ * @example
+ * ```typescript
+ * class QueueWorker extends BackgroundService {
+ *   constructor(@inject(queueIdentifier) private queue: IQueue) {
+ *     super();
+ *   }
+ *
+ *   protected async executeAsync(signal: AbortSignal): Promise<void> {
+ *     while (!signal.aborted) {
+ *       await this.queue.processNext(signal);
+ *     }
+ *   }
+ * }
+ *
+ * services.addHostedService(QueueWorker);
+ * ```
+ */
+export abstract class BackgroundService implements IHostedService {
+  /**
+   * Aborts the signal passed to the running task
+   */
+  private _abortController?: AbortController;
+
+  /**
+   * The running task, if the service has been started
+   */
+  private _execution?: Promise<void>;
+
+  /**
+   * Runs the task of the service until the signal is aborted
+   *
+   * @param signal - Aborted when the host stops
+   * @returns A promise that resolves once the task has finished
+   */
+  protected abstract executeAsync(signal: AbortSignal): Promise<void>;
+
+  /**
+   * Starts the task of the service without waiting for it to finish
+   *
+   * @returns A promise that resolves once the task has been started
+   */
+  startAsync(): Promise<void> {
+    const abortController = new AbortController();
+
+    this._abortController = abortController;
+    this._execution = Promise.resolve().then(() => this.executeAsync(abortController.signal));
+
+    // Errors are rethrown by stopAsync(), so a failing task is not an unhandled rejection
+    this._execution.catch(() => undefined);
+
+    return Promise.resolve();
+  }
+
+  /**
+   * Aborts the signal passed to the task and waits for the task to finish
+   *
+   * @returns A promise that resolves once the task has finished
+   * @throws The error thrown by the task, unless it was aborted
+   */
+  async stopAsync(): Promise<void> {
+    if (!this._abortController || !this._execution) {
+      return;
+    }
+
+    this._abortController.abort();
+
+    try {
+      await this._execution;
+    } catch (error) {
+      if (!(error instanceof Error) || error.name !== 'AbortError') {
+        throw error;
+      }
+    } finally {
+      this._abortController = undefined;
+      this._execution = undefined;
+    }
+  }
+}
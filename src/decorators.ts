@@ -1,4 +1,17 @@
-import type { ServiceIdentifier } from './types.js';
+import type {
+  Constructor,
+  InjectableOptions,
+  InjectOptions,
+  ParameterInjection,
+  ParameterInjectionOptions,
+  PropertyInjection,
+  ServiceDescriptor,
+  ServiceIdentifier,
+  ServiceKey,
+  StandardClassDecorator,
+  StandardMethodDecorator,
+  StandardPropertyDecorator,
+} from './types.js';
 
 /**
  * Metadata key for storing parameter type information for dependency injection
@@ -6,51 +19,566 @@ import type { ServiceIdentifier } from './types.js';
  */
 export const DI_PARAM_TYPES = 'di:paramtypes';
 
+/**
+ * Metadata key for storing how a parameter's dependency should be injected
+ * @internal
+ */
+export const DI_PARAM_OPTIONS = 'di:paramoptions';
+
+/**
+ * Metadata key for storing the services injected into properties after construction
+ * @internal
+ */
+export const DI_PROPERTY_INJECTIONS = 'di:propertyinjections';
+
+/**
+ * Metadata key for storing the methods called once every dependency has been injected
+ * @internal
+ */
+export const DI_POST_CONSTRUCT = 'di:postconstruct';
+
 /**
  * Metadata key for marking classes as injectable
  * @internal
  */
 export const DI_INJECTABLE = 'di:injectable';
 
+// Standard decorators are only given a metadata object when Symbol.metadata is defined
+(Symbol as { metadata?: symbol }).metadata ??= Symbol.for('Symbol.metadata');
+
 /**
  * Decorator for constructor parameters that specifies which service identifier to use for injection
  *
+ * Standard decorators cannot decorate parameters, so with them `@inject()` decorates fields and
+ * accessors instead, which are injected after the instance is constructed.
+ *
  * @template T - The type of the service to be injected
  * @param serviceType - The service identifier for the dependency to inject
- * @returns A parameter decorator function that associates the parameter with the service identifier
+ * @param options - Optional settings for how the dependency is injected
+ * @returns A decorator function that associates the parameter, field or accessor with the service identifier
  *
  * @example
  * ```typescript
  * class MyService {
  *   constructor(
- *     @inject(loggerIdentifier) private logger: ILogger
+ *     @inject(loggerIdentifier) private logger: ILogger,
+ *     @inject(telemetryIdentifier, { optional: true }) private telemetry?: ITelemetry
+ *   ) {}
+ * }
+ *
+ * // or with standard decorators:
+ * class MyService {
+ *   @inject(loggerIdentifier) accessor logger!: ILogger;
+ * }
+ * ```
+ */
+export function inject<T>(
+  serviceType: ServiceIdentifier<T>,
+  options?: InjectOptions,
+): ParameterDecorator & StandardPropertyDecorator {
+  return (
+    target: object | undefined,
+    context:
+      | string
+      | symbol
+      | undefined
+      | ClassFieldDecoratorContext
+      | ClassAccessorDecoratorContext,
+    parameterIndex?: number,
+  ) => {
+    if (isDecoratorContext(context)) {
+      definePropertyInjection(context, 'inject', { serviceType, options: options ?? {} });
+      return;
+    }
+
+    Reflect.defineMetadata(DI_PARAM_TYPES, serviceType, target!, parameterIndex!.toString());
+
+    if (options) {
+      defineParameterOptions(target!, parameterIndex!, options);
+    }
+  };
+}
+
+/**
+ * Decorator for constructor parameters that injects every registered implementation of a service
+ *
+ * @template T - The type of the services to be injected
+ * @param serviceType - The service identifier for the dependencies to inject
+ * @returns A parameter decorator function that associates the parameter with all implementations of the service identifier
+ *
+ * @example
+ * ```typescript
+ * class Pipeline {
+ *   constructor(
+ *     @injectAll(middlewareIdentifier) private middlewares: IMiddleware[]
+ *   ) {}
+ * }
+ * ```
+ */
+export function injectAll<T>(serviceType: ServiceIdentifier<T>): ParameterDecorator {
+  // eslint-disable-next-line @typescript-eslint/no-wrapper-object-types
+  return (target: Object, _: string | symbol | undefined, parameterIndex: number) => {
+    Reflect.defineMetadata(DI_PARAM_TYPES, serviceType, target, parameterIndex.toString());
+    defineParameterOptions(target, parameterIndex, { all: true });
+  };
+}
+
+/**
+ * Decorator for constructor parameters that injects a function resolving the service when it is
+ * first called, for expensive services that are rarely used
+ *
+ * The service is resolved from the provider that created the instance, and the same instance is
+ * returned by every later call.
+ *
+ * @template T - The type of the service to be injected
+ * @param serviceType - The service identifier for the dependency to inject
+ * @returns A parameter decorator function that associates the parameter with a lazy resolver for the service
+ *
+ * @example
+ * ```typescript
+ * class ReportController {
+ *   constructor(
+ *     @injectLazy(pdfRendererIdentifier) private renderer: Lazy<IPdfRenderer>
+ *   ) {}
+ *
+ *   export() {
+ *     return this.renderer().render();
+ *   }
+ * }
+ * ```
+ */
+export function injectLazy<T>(serviceType: ServiceIdentifier<T>): ParameterDecorator {
+  // eslint-disable-next-line @typescript-eslint/no-wrapper-object-types
+  return (target: Object, _: string | symbol | undefined, parameterIndex: number) => {
+    Reflect.defineMetadata(DI_PARAM_TYPES, serviceType, target, parameterIndex.toString());
+    defineParameterOptions(target, parameterIndex, { lazy: true });
+  };
+}
+
+/**
+ * Decorator for constructor parameters that injects a function resolving the service on every
+ * call, so that a transient service can be created on demand without depending on the service provider
+ *
+ * Each call resolves the service according to its registered lifetime from the provider that
+ * created the instance.
+ *
+ * @template T - The type of the service to be injected
+ * @param serviceType - The service identifier for the dependency to inject
+ * @returns A parameter decorator function that associates the parameter with a factory for the service
+ *
+ * @example
+ * ```typescript
+ * class ImportJob {
+ *   constructor(
+ *     @injectFactory(rowParserIdentifier) private createParser: () => IRowParser
  *   ) {}
  * }
  * ```
  */
-export function inject<T>(serviceType: ServiceIdentifier<T>): ParameterDecorator {
+export function injectFactory<T>(serviceType: ServiceIdentifier<T>): ParameterDecorator {
   // eslint-disable-next-line @typescript-eslint/no-wrapper-object-types
   return (target: Object, _: string | symbol | undefined, parameterIndex: number) => {
     Reflect.defineMetadata(DI_PARAM_TYPES, serviceType, target, parameterIndex.toString());
+    defineParameterOptions(target, parameterIndex, { factory: true });
+  };
+}
+
+/**
+ * Decorator for constructor parameters that injects the implementation of a service registered with a key
+ *
+ * @template T - The type of the service to be injected
+ * @param serviceType - The service identifier for the dependency to inject
+ * @param serviceKey - The key the implementation was registered with
+ * @returns A parameter decorator function that associates the parameter with the keyed service
+ *
+ * @example
+ * ```typescript
+ * class BackupJob {
+ *   constructor(
+ *     @injectKeyed(storageIdentifier, 's3') private storage: IStorage
+ *   ) {}
+ * }
+ * ```
+ */
+export function injectKeyed<T>(
+  serviceType: ServiceIdentifier<T>,
+  serviceKey: ServiceKey,
+): ParameterDecorator {
+  // eslint-disable-next-line @typescript-eslint/no-wrapper-object-types
+  return (target: Object, _: string | symbol | undefined, parameterIndex: number) => {
+    Reflect.defineMetadata(DI_PARAM_TYPES, serviceType, target, parameterIndex.toString());
+    defineParameterOptions(target, parameterIndex, { key: serviceKey });
+  };
+}
+
+/**
+ * Decorator for fields and setters that injects a service after the instance is constructed
+ *
+ * Property injection suits framework base classes, whose constructors should not depend on what
+ * derived classes inject, and collaborators that depend on each other by design.
+ *
+ * @template T - The type of the service to be injected
+ * @param serviceType - The service identifier for the dependency to inject
+ * @param options - Optional settings for how the dependency is injected
+ * @returns A decorator function that associates the field, setter or accessor with the service identifier
+ *
+ * @example
+ * ```typescript
+ * abstract class Controller {
+ *   @injectProperty(loggerIdentifier) protected logger!: ILogger;
+ *   @injectProperty(telemetryIdentifier, { optional: true }) protected telemetry?: ITelemetry;
+ * }
+ * ```
+ */
+export function injectProperty<T>(
+  serviceType: ServiceIdentifier<T>,
+  options?: InjectOptions,
+): ((target: object, propertyKey: string | symbol) => void) & StandardPropertyDecorator {
+  return (
+    target: object | undefined,
+    propertyKey: string | symbol | ClassFieldDecoratorContext | ClassAccessorDecoratorContext,
+  ) => {
+    if (isDecoratorContext(propertyKey)) {
+      definePropertyInjection(propertyKey, 'injectProperty', {
+        serviceType,
+        options: options ?? {},
+      });
+      return;
+    }
+
+    const injections: PropertyInjection[] =
+      Reflect.getMetadata(DI_PROPERTY_INJECTIONS, target!) ?? [];
+
+    Reflect.defineMetadata(
+      DI_PROPERTY_INJECTIONS,
+      [...injections, { propertyKey, serviceType, options: options ?? {} }],
+      target!,
+    );
+  };
+}
+
+/**
+ * Decorator for methods the container calls once every constructor and property dependency has
+ * been injected
+ *
+ * @returns A method decorator function that marks the method to call after injection
+ *
+ * @example
+ * ```typescript
+ * class Controller {
+ *   @injectProperty(loggerIdentifier) private logger!: ILogger;
+ *
+ *   @postConstruct()
+ *   init() {
+ *     this.logger.log('ready');
+ *   }
+ * }
+ * ```
+ */
+export function postConstruct(): MethodDecorator & StandardMethodDecorator {
+  return (target: unknown, propertyKey: string | symbol | ClassMethodDecoratorContext) => {
+    if (isDecoratorContext(propertyKey)) {
+      throwIfNotInstanceMember(propertyKey, 'postConstruct');
+      appendDecoratorMetadata(propertyKey, DI_POST_CONSTRUCT, propertyKey.name);
+      return;
+    }
+
+    const methods: (string | symbol)[] =
+      Reflect.getMetadata(DI_POST_CONSTRUCT, target as object) ?? [];
+
+    Reflect.defineMetadata(DI_POST_CONSTRUCT, [...methods, propertyKey], target as object);
+  };
+}
+
+/**
+ * Decorator for constructor parameters that marks the dependency as optional
+ *
+ * When the dependency is not registered, `undefined` is injected instead of throwing.
+ *
+ * @returns A parameter decorator function that marks the parameter as optional
+ *
+ * @example
+ * ```typescript
+ * class MyService {
+ *   constructor(
+ *     @optional() @inject(telemetryIdentifier) private telemetry?: ITelemetry
+ *   ) {}
+ * }
+ * ```
+ */
+export function optional(): ParameterDecorator {
+  // eslint-disable-next-line @typescript-eslint/no-wrapper-object-types
+  return (target: Object, _: string | symbol | undefined, parameterIndex: number) => {
+    defineParameterOptions(target, parameterIndex, { optional: true });
   };
 }
 
 /**
  * Decorator that marks a class as injectable, allowing the container to create instances with dependencies
  *
+ * Classes must be marked as injectable to be constructed by a provider built in strict mode. Since
+ * standard decorators cannot decorate constructor parameters, classes using them list their
+ * constructor dependencies with the `deps` option.
+ *
+ * @param options - Optional settings, such as the lifetime used when the class is registered without one
  * @returns A class decorator function that marks the class as injectable
  *
  * @example
  * ```typescript
- * @injectable()
+ * @injectable({ lifetime: 'scoped' })
  * class MyService {
- *   constructor() {}
+ *   constructor(@inject(loggerIdentifier) private logger: ILogger) {}
  * }
+ *
+ * // or with standard decorators:
+ * @injectable({ lifetime: 'scoped', deps: [loggerIdentifier] })
+ * class MyService {
+ *   constructor(private logger: ILogger) {}
+ * }
+ *
+ * services.add(MyService);
  * ```
  */
-export function injectable(): ClassDecorator {
+export function injectable(options?: InjectableOptions): ClassDecorator & StandardClassDecorator {
   // eslint-disable-next-line @typescript-eslint/no-unsafe-function-type
-  return (target: Function) => {
-    Reflect.defineMetadata(DI_INJECTABLE, true, target);
+  return (target: Function, context?: ClassDecoratorContext) => {
+    if (context) {
+      context.metadata[DI_INJECTABLE] = options ?? {};
+      return;
+    }
+
+    Reflect.defineMetadata(DI_INJECTABLE, options ?? {}, target);
   };
 }
+
+/**
+ * Gets the options a class was marked as injectable with
+ *
+ * Base classes being marked as injectable does not make their derived classes injectable.
+ *
+ * @param ctor - The class to inspect
+ * @returns The injectable options, or undefined if the class is not marked with `@injectable()`
+ * @internal
+ */
+export function getInjectableOptions(ctor: Constructor<unknown>): InjectableOptions | undefined {
+  const metadata = ctor[Symbol.metadata];
+
+  return (
+    Reflect.getOwnMetadata(DI_INJECTABLE, ctor) ??
+    (metadata && Object.hasOwn(metadata, DI_INJECTABLE)
+      ? (metadata[DI_INJECTABLE] as InjectableOptions)
+      : undefined)
+  );
+}
+
+/**
+ * Gets the service injected into each constructor parameter of a class
+ *
+ * Builds that do not emit decorator metadata leave no record of the constructor parameters, so in
+ * strict mode the declared arity of the constructor is also taken into account and the parameters
+ * it adds are reported as undecorated.
+ *
+ * @param ctor - The class whose constructor parameters to inspect
+ * @param strict - Whether to include the parameters counted by the constructor's arity
+ * @returns The injection for each constructor parameter, in parameter order
+ * @internal
+ */
+export function getParameterInjections(
+  ctor: Constructor<unknown>,
+  strict = false,
+): ParameterInjection[] {
+  const paramTypes: unknown[] = Reflect.getMetadata('design:paramtypes', ctor) ?? [];
+  const count = strict ? Math.max(paramTypes.length, ctor.length) : paramTypes.length;
+
+  return Array.from({ length: count }, (_, index) => ({
+    serviceType: Reflect.getMetadata(DI_PARAM_TYPES, ctor, index.toString()),
+    options: Reflect.getMetadata(DI_PARAM_OPTIONS, ctor, index.toString()) ?? {},
+  }));
+}
+
+/**
+ * Gets the services injected into the properties of a class, including those declared by its base classes
+ *
+ * @param ctor - The class whose properties to inspect
+ * @returns The injection for each decorated field or setter
+ * @internal
+ */
+export function getPropertyInjections(ctor: Constructor<unknown>): PropertyInjection[] {
+  return [
+    ...(Reflect.getMetadata(DI_PROPERTY_INJECTIONS, ctor.prototype) ?? []),
+    ...((ctor[Symbol.metadata]?.[DI_PROPERTY_INJECTIONS] as PropertyInjection[] | undefined) ?? []),
+  ];
+}
+
+/**
+ * Gets the methods of a class to call once every dependency has been injected
+ *
+ * @param ctor - The class whose methods to inspect
+ * @returns The names of the methods, base class methods first
+ * @internal
+ */
+export function getPostConstructMethods(ctor: Constructor<unknown>): (string | symbol)[] {
+  return [
+    ...(Reflect.getMetadata(DI_POST_CONSTRUCT, ctor.prototype) ?? []),
+    ...((ctor[Symbol.metadata]?.[DI_POST_CONSTRUCT] as (string | symbol)[] | undefined) ?? []),
+  ];
+}
+
+/**
+ * Gets the services explicitly listed for the constructor parameters of a registered service class
+ *
+ * Dependencies given at registration take precedence over the `deps` the class is marked as
+ * injectable with, which take precedence over a static `inject` array declared on the class.
+ *
+ * @param descriptor - The descriptor of the service class
+ * @returns The service identifiers in parameter order, or undefined if none are listed
+ * @internal
+ */
+export function getExplicitDependencies(
+  descriptor: ServiceDescriptor<unknown>,
+): readonly ServiceIdentifier<unknown>[] | undefined {
+  const { inject } = descriptor.implementationType as Constructor<unknown> & { inject?: unknown };
+
+  return (
+    descriptor.dependencies ??
+    getInjectableOptions(descriptor.implementationType)?.deps ??
+    (Array.isArray(inject) ? (inject as ServiceIdentifier<unknown>[]) : undefined)
+  );
+}
+
+/**
+ * Determines whether a registered service class may be constructed in strict mode
+ *
+ * @param descriptor - The descriptor of the service class
+ * @returns True if the class is marked with `@injectable()` or its dependencies are listed explicitly
+ * @internal
+ */
+export function isInjectable(descriptor: ServiceDescriptor<unknown>): boolean {
+  return (
+    getInjectableOptions(descriptor.implementationType) !== undefined ||
+    getExplicitDependencies(descriptor) !== undefined
+  );
+}
+
+/**
+ * Gets the service injected into each constructor parameter of a registered service class
+ *
+ * Explicitly listed dependencies are used instead of the decorator metadata of the class. A
+ * decorator class that injects the service it decorates receives the wrapped service instead of itself.
+ *
+ * @param descriptor - The descriptor of the service class
+ * @param strict - Whether to include the parameters counted by the constructor's arity
+ * @returns The injection for each constructor parameter, in parameter order
+ * @internal
+ */
+export function getDescriptorInjections(
+  descriptor: ServiceDescriptor<unknown>,
+  strict = false,
+): ParameterInjection[] {
+  const { implementationType, decoratedType, injectedDecoratedType } = descriptor;
+  const dependencies = getExplicitDependencies(descriptor);
+  const injections = dependencies
+    ? Array.from(
+        {
+          length: strict
+            ? Math.max(dependencies.length, implementationType.length)
+            : dependencies.length,
+        },
+        (_, index): ParameterInjection => ({ serviceType: dependencies[index], options: {} }),
+      )
+    : getParameterInjections(implementationType, strict);
+
+  return injections.map(injection =>
+    decoratedType !== undefined &&
+    injectedDecoratedType !== undefined &&
+    injection.serviceType === injectedDecoratedType
+      ? { ...injection, serviceType: decoratedType }
+      : injection,
+  );
+}
+
+/**
+ * Merges injection options into the options already defined for a constructor parameter
+ *
+ * @param target - The class whose constructor parameter is decorated
+ * @param parameterIndex - The index of the decorated parameter
+ * @param options - The options to merge
+ */
+function defineParameterOptions(
+  target: object,
+  parameterIndex: number,
+  options: ParameterInjectionOptions,
+): void {
+  const key = parameterIndex.toString();
+  const existing = Reflect.getOwnMetadata(DI_PARAM_OPTIONS, target, key) as
+    | ParameterInjectionOptions
+    | undefined;
+
+  Reflect.defineMetadata(DI_PARAM_OPTIONS, { ...existing, ...options }, target, key);
+}
+
+/**
+ * Determines whether a decorator was applied as a standard decorator rather than a legacy one
+ *
+ * @param value - The second argument the decorator was called with
+ * @returns True if the argument is the context object passed to standard decorators
+ */
+function isDecoratorContext<T extends DecoratorContext>(
+  value: T | string | symbol | undefined,
+): value is T {
+  return typeof value === 'object';
+}
+
+/**
+ * Throws if a standard decorator is applied to a static or private class member, which the
+ * container cannot inject into or call
+ *
+ * @param context - The context of the decorated member
+ * @param decoratorName - The name of the decorator, for the error message
+ * @throws TypeError if the member is static or private
+ */
+function throwIfNotInstanceMember(
+  context: ClassMemberDecoratorContext,
+  decoratorName: string,
+): void {
+  if (context.static || context.private) {
+    throw new TypeError(
+      `@${decoratorName}() cannot be applied to static or private member '${String(context.name)}'.`,
+    );
+  }
+}
+
+/**
+ * Records the service injected into a field or accessor decorated with a standard decorator
+ *
+ * @param context - The context of the decorated field or accessor
+ * @param decoratorName - The name of the decorator, for error messages
+ * @param injection - The service to inject and how to inject it
+ */
+function definePropertyInjection(
+  context: ClassFieldDecoratorContext | ClassAccessorDecoratorContext,
+  decoratorName: string,
+  injection: Omit<PropertyInjection, 'propertyKey'>,
+): void {
+  throwIfNotInstanceMember(context, decoratorName);
+  appendDecoratorMetadata(context, DI_PROPERTY_INJECTIONS, {
+    propertyKey: context.name,
+    ...injection,
+  });
+}
+
+/**
+ * Appends a value to a list in the metadata of a class decorated with standard decorators
+ *
+ * The metadata of a derived class inherits from that of its base class, so the list starts from
+ * the base class entries without modifying them.
+ *
+ * @param context - The context of the decorated class member
+ * @param key - The metadata key of the list
+ * @param value - The value to append
+ */
+function appendDecoratorMetadata(context: DecoratorContext, key: string, value: unknown): void {
+  const existing = (context.metadata[key] as unknown[] | undefined) ?? [];
+
+  context.metadata[key] = [...existing, value];
+}
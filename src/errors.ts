@@ -0,0 +1,334 @@
+import type { ServiceResolutionFailure } from './types.js';
+
+/**
+ * Error thrown when an operation is performed on a service provider or scope that has already been disposed
+ */
+export class ObjectDisposedError extends Error {
+  /**
+   * Creates a new object disposed error
+   *
+   * @param objectName - The name of the object that has been disposed
+   */
+  constructor(objectName: string) {
+    super(`Cannot access a disposed object. Object name: '${objectName}'.`);
+    this.name = 'ObjectDisposedError';
+  }
+}
+
+/**
+ * Base class for errors thrown when a service cannot be resolved
+ */
+export class ServiceResolutionError extends Error {
+  /**
+   * The names of the services in the dependency chain that led to the failure
+   */
+  public readonly path: readonly string[];
+
+  /**
+   * Creates a new service resolution error
+   *
+   * @param message - The error message
+   * @param path - The names of the services in the dependency chain that led to the failure
+   * @param options - Optional error options, such as the underlying cause
+   */
+  constructor(message: string, path: readonly string[], options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'ServiceResolutionError';
+    this.path = path;
+  }
+
+  /**
+   * Formats the requesting class, parameter index and dependency chain of a failure
+   *
+   * @param failure - The resolution failure to describe
+   * @returns A description of where the failure happened
+   */
+  protected static describeFailure(failure: ServiceResolutionFailure): string {
+    const { requestingType, parameterIndex, path } = failure;
+    const details: string[] = [];
+
+    if (requestingType !== undefined) {
+      details.push(
+        parameterIndex === undefined
+          ? `It was requested by '${requestingType}'.`
+          : `It was requested by parameter ${parameterIndex} of '${requestingType}'.`,
+      );
+    }
+
+    details.push(`Resolution path: ${path.join(' -> ')}.`);
+
+    return details.join(' ');
+  }
+}
+
+/**
+ * Error thrown when a service depends on itself, directly or through other services
+ */
+export class CircularDependencyError extends ServiceResolutionError {
+  /**
+   * Creates a new circular dependency error
+   *
+   * @param path - The names of the services that form the cycle, starting and ending with the same service
+   */
+  constructor(path: readonly string[]) {
+    super(`A circular dependency was detected: ${path.join(' -> ')}.`, path);
+    this.name = 'CircularDependencyError';
+  }
+}
+
+/**
+ * Error thrown when a requested service has not been registered
+ */
+export class ServiceNotRegisteredError extends ServiceResolutionError {
+  /**
+   * The name of the service that is not registered
+   */
+  public readonly serviceName: string;
+
+  /**
+   * The name of the class or service that requested the service, if any
+   */
+  public readonly requestingType?: string;
+
+  /**
+   * The index of the constructor parameter that requested the service, if any
+   */
+  public readonly parameterIndex?: number;
+
+  /**
+   * Creates a new service not registered error
+   *
+   * @param failure - Where in the dependency graph the service was requested
+   */
+  constructor(failure: ServiceResolutionFailure) {
+    super(
+      `Service '${failure.serviceName}' is not registered. ${ServiceResolutionError.describeFailure(failure)}`,
+      failure.path,
+    );
+    this.name = 'ServiceNotRegisteredError';
+    this.serviceName = failure.serviceName;
+    this.requestingType = failure.requestingType;
+    this.parameterIndex = failure.parameterIndex;
+  }
+}
+
+/**
+ * Error thrown when a service constructor or factory throws while creating an instance
+ */
+export class ServiceActivationError extends ServiceResolutionError {
+  /**
+   * The name of the service that failed to activate
+   */
+  public readonly serviceName: string;
+
+  /**
+   * The name of the class or service that requested the service, if any
+   */
+  public readonly requestingType?: string;
+
+  /**
+   * The index of the constructor parameter that requested the service, if any
+   */
+  public readonly parameterIndex?: number;
+
+  /**
+   * Creates a new service activation error
+   *
+   * @param failure - Where in the dependency graph the service was requested
+   * @param cause - The error thrown by the constructor or factory
+   */
+  constructor(failure: ServiceResolutionFailure, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+
+    super(
+      `Failed to activate service '${failure.serviceName}' (${reason}). ${ServiceResolutionError.describeFailure(failure)}`,
+      failure.path,
+      { cause },
+    );
+    this.name = 'ServiceActivationError';
+    this.serviceName = failure.serviceName;
+    this.requestingType = failure.requestingType;
+    this.parameterIndex = failure.parameterIndex;
+  }
+}
+
+/**
+ * Error thrown when scope validation is enabled and a scoped service is resolved from the root
+ * provider or captured by a singleton
+ */
+export class ScopeValidationError extends ServiceResolutionError {
+  /**
+   * Creates a new scope validation error
+   *
+   * @param path - The names of the services in the dependency chain, ending with the scoped service
+   * @param captorIndex - The index in the path of the singleton that captures the scoped service,
+   * or undefined if the scoped service is resolved from the root provider
+   */
+  constructor(path: readonly string[], captorIndex?: number) {
+    const scopedService = path.at(-1);
+
+    super(
+      captorIndex === undefined
+        ? `Cannot resolve scoped service '${scopedService}' from the root provider. Resolution path: ${path.join(' -> ')}.`
+        : `Cannot consume scoped service '${scopedService}' from singleton '${path[captorIndex]}'. Captive dependency chain: ${path.slice(captorIndex).join(' -> ')}.`,
+      path,
+    );
+    this.name = 'ScopeValidationError';
+  }
+}
+
+/**
+ * Error thrown when a service that needs asynchronous initialization is resolved synchronously
+ */
+export class AsyncResolutionRequiredError extends ServiceResolutionError {
+  /**
+   * The name of the service that must be resolved asynchronously
+   */
+  public readonly serviceName: string;
+
+  /**
+   * Creates a new async resolution required error
+   *
+   * @param serviceName - The name of the service that must be resolved asynchronously
+   * @param path - The names of the services in the dependency chain, ending with the service
+   * @param pending - Whether the service is already being created by an unfinished asynchronous resolution
+   */
+  constructor(serviceName: string, path: readonly string[], pending = false) {
+    super(
+      pending
+        ? `Service '${serviceName}' is still being created by getServiceAsync() and must be resolved with getServiceAsync() until its creation completes. Resolution path: ${path.join(' -> ')}.`
+        : `Service '${serviceName}' requires asynchronous initialization and must be resolved with getServiceAsync(). Resolution path: ${path.join(' -> ')}.`,
+      path,
+    );
+    this.name = 'AsyncResolutionRequiredError';
+    this.serviceName = serviceName;
+  }
+}
+
+/**
+ * Error thrown when a scoped placeholder is resolved in a scope it has not been provided to
+ */
+export class ScopedValueNotProvidedError extends ServiceResolutionError {
+  /**
+   * The name of the scoped placeholder that has no value
+   */
+  public readonly serviceName: string;
+
+  /**
+   * Creates a new scoped value not provided error
+   *
+   * @param serviceName - The name of the scoped placeholder that has no value
+   * @param path - The names of the services in the dependency chain, ending with the placeholder
+   */
+  constructor(serviceName: string, path: readonly string[]) {
+    super(
+      `Service '${serviceName}' is a scoped placeholder, but no value was provided to the scope. Provide one with createScope({ values }) or provide(). Resolution path: ${path.join(' -> ')}.`,
+      path,
+    );
+    this.name = 'ScopedValueNotProvidedError';
+    this.serviceName = serviceName;
+  }
+}
+
+/**
+ * Error thrown when a constructor parameter has no `@inject` decorator identifying the service to inject
+ */
+export class MissingInjectDecoratorError extends ServiceResolutionError {
+  /**
+   * The name of the class whose constructor parameter is not decorated
+   */
+  public readonly requestingType: string;
+
+  /**
+   * The index of the constructor parameter that is not decorated
+   */
+  public readonly parameterIndex: number;
+
+  /**
+   * Creates a new missing inject decorator error
+   *
+   * @param requestingType - The name of the class whose constructor parameter is not decorated
+   * @param parameterIndex - The index of the constructor parameter that is not decorated
+   * @param path - The names of the services in the dependency chain, ending with the class
+   */
+  constructor(requestingType: string, parameterIndex: number, path: readonly string[]) {
+    super(
+      `Parameter ${parameterIndex} of '${requestingType}' has no @inject decorator, so the service to inject cannot be determined. Resolution path: ${path.join(' -> ')}.`,
+      path,
+    );
+    this.name = 'MissingInjectDecoratorError';
+    this.requestingType = requestingType;
+    this.parameterIndex = parameterIndex;
+  }
+}
+
+/**
+ * Error thrown in strict mode when a class that is not marked with `@injectable()` would be constructed
+ */
+export class NotInjectableError extends ServiceResolutionError {
+  /**
+   * The name of the class that is not marked as injectable
+   */
+  public readonly typeName: string;
+
+  /**
+   * Creates a new not injectable error
+   *
+   * @param typeName - The name of the class that is not marked as injectable
+   * @param path - The names of the services in the dependency chain, ending with the class
+   */
+  constructor(typeName: string, path: readonly string[]) {
+    super(
+      `Class '${typeName}' is not marked with @injectable(), so it cannot be constructed in strict mode. Resolution path: ${path.join(' -> ')}.`,
+      path,
+    );
+    this.name = 'NotInjectableError';
+    this.typeName = typeName;
+  }
+}
+
+/**
+ * Error thrown when the provider is built and configured options fail their validation
+ */
+export class OptionsValidationError extends Error {
+  /**
+   * The name of the options that are not valid
+   */
+  public readonly optionsName: string;
+
+  /**
+   * The messages of the validations the options failed
+   */
+  public readonly failures: readonly string[];
+
+  /**
+   * Creates a new options validation error
+   *
+   * @param optionsName - The name of the options that are not valid
+   * @param failures - The messages of the validations the options failed
+   */
+  constructor(optionsName: string, failures: readonly string[]) {
+    super(`Options '${optionsName}' are not valid: ${failures.join(' ')}`);
+    this.name = 'OptionsValidationError';
+    this.optionsName = optionsName;
+    this.failures = failures;
+  }
+}
+
+/**
+ * Error thrown when validating the registered services finds services that cannot be constructed
+ */
+export class ContainerValidationError extends AggregateError {
+  /**
+   * Creates a new container validation error
+   *
+   * @param errors - The problems found while validating the registered services
+   */
+  constructor(errors: readonly ServiceResolutionError[]) {
+    super(
+      errors,
+      `Some services are not able to be constructed:\n${errors.map(error => `- ${error.message}`).join('\n')}`,
+    );
+    this.name = 'ContainerValidationError';
+  }
+}
@@ -0,0 +1,305 @@
+import { ServiceCollection } from './serviceCollection.js';
+import { hostedServiceIdentifier } from './types.js';
+import type {
+  HostOptions,
+  IHost,
+  IHostedService,
+  IServiceCollection,
+  IServiceProvider,
+} from './types.js';
+
+/**
+ * The default time in milliseconds that stopping the host may take
+ */
+const DEFAULT_SHUTDOWN_TIMEOUT = 30_000;
+
+/**
+ * The process signals that stop a running host
+ */
+const SHUTDOWN_SIGNALS: readonly NodeJS.Signals[] = ['SIGINT', 'SIGTERM'];
+
+/**
+ * An application host that owns the root service provider and starts and stops its hosted services.
+ *
+ * Hosted services are started one at a time in registration order and stopped in the reverse
+ * order. Once every started service has stopped, or the shutdown timeout has elapsed, the root
+ * provider is disposed.
+ *
+ * @implements {IHost}
+ */
+export class Host implements IHost {
+  /**
+   * The root service provider of the application
+   */
+  public readonly services: IServiceProvider;
+
+  /**
+   * The time in milliseconds that stopping the host may take
+   */
+  private readonly _shutdownTimeout: number;
+
+  /**
+   * Whether `runAsync()` stops the host when the process receives a shutdown signal
+   */
+  private readonly _handleSignals: boolean;
+
+  /**
+   * Aborted when the host is asked to stop, which also aborts any hosted service still starting
+   */
+  private readonly _stopController = new AbortController();
+
+  /**
+   * The hosted services that have started, in the order they were started
+   */
+  private readonly _startedServices: IHostedService[] = [];
+
+  /**
+   * Stops the host when the process receives a shutdown signal
+   */
+  private readonly _signalHandler = (): void => {
+    // runAsync() reports errors thrown while stopping
+    this.stopAsync().catch(() => undefined);
+  };
+
+  /**
+   * Starting the hosted services, once the host has been started
+   */
+  private _starting?: Promise<void>;
+
+  /**
+   * Stopping the hosted services and disposing the services, once the host has been stopped
+   */
+  private _stopping?: Promise<void>;
+
+  /**
+   * Creates a new host
+   *
+   * @param services - The root service provider of the application, which the host owns
+   * @param options - Optional settings that control how the host stops
+   */
+  constructor(services: IServiceProvider, options?: HostOptions) {
+    this.services = services;
+    this._shutdownTimeout = options?.shutdownTimeout ?? DEFAULT_SHUTDOWN_TIMEOUT;
+    this._handleSignals = options?.handleSignals ?? true;
+  }
+
+  /**
+   * Starts every hosted service, one at a time in registration order.
+   *
+   * If a hosted service fails to start, the services that have started are stopped and the root
+   * provider is disposed before the error is rethrown.
+   *
+   * @returns A promise that resolves once every hosted service has started
+   * @throws The error thrown by the hosted service that failed to start
+   */
+  async startAsync(): Promise<void> {
+    this._starting ??= this.startServicesAsync();
+
+    try {
+      await this._starting;
+    } catch (error) {
+      await this.stopAsync().catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Stops the started hosted services in the reverse order they were started, then disposes the
+   * root provider.
+   *
+   * The shutdown timeout starts when the host is asked to stop, and also bounds the wait for a
+   * hosted service that is still starting. Every hosted service is given a signal that is aborted
+   * when it elapses, after which the host stops waiting for the remaining services and for disposal.
+   *
+   * @returns A promise that resolves once the host has stopped
+   * @throws AggregateError if one or more hosted services failed to stop or services failed to dispose
+   */
+  stopAsync(): Promise<void> {
+    this._stopping ??= this.stopServicesAsync();
+
+    return this._stopping;
+  }
+
+  /**
+   * Starts the host and waits until it is stopped, either by `stopAsync()` or by SIGINT or SIGTERM.
+   *
+   * The signal handlers are removed as soon as the host starts stopping, so a second signal ends
+   * the process without waiting for a graceful shutdown.
+   *
+   * @returns A promise that resolves once the host has stopped
+   * @throws The error thrown by a hosted service that failed to start
+   * @throws AggregateError if one or more hosted services failed to stop or services failed to dispose
+   */
+  async runAsync(): Promise<void> {
+    if (this._handleSignals) {
+      SHUTDOWN_SIGNALS.forEach(signal => process.once(signal, this._signalHandler));
+    }
+
+    await this.startAsync();
+
+    const { signal } = this._stopController;
+
+    if (!signal.aborted) {
+      await new Promise(resolve => signal.addEventListener('abort', resolve, { once: true }));
+    }
+
+    await this.stopAsync();
+  }
+
+  /**
+   * Stops the host when used with an `await using` declaration
+   *
+   * @returns A promise that resolves once the host has stopped
+   */
+  [Symbol.asyncDispose](): Promise<void> {
+    return this.stopAsync();
+  }
+
+  /**
+   * Resolves and starts every hosted service, until one fails or the host is asked to stop
+   *
+   * @returns A promise that resolves once every hosted service has started
+   */
+  private async startServicesAsync(): Promise<void> {
+    const { signal } = this._stopController;
+
+    for (const service of await this.services.getServicesAsync(hostedServiceIdentifier)) {
+      if (signal.aborted) {
+        return;
+      }
+
+      await service.startAsync(signal);
+      this._startedServices.push(service);
+    }
+  }
+
+  /**
+   * Stops the started hosted services in reverse order and disposes the root provider
+   *
+   * @returns A promise that resolves once the host has stopped
+   */
+  private async stopServicesAsync(): Promise<void> {
+    SHUTDOWN_SIGNALS.forEach(signal => process.off(signal, this._signalHandler));
+    this._stopController.abort();
+
+    const timeout = AbortSignal.timeout(this._shutdownTimeout);
+    const errors: unknown[] = [];
+
+    // Services still starting were given the aborted signal, so they are expected to return quickly
+    if (this._starting) {
+      await untilAborted(
+        this._starting.catch(() => undefined),
+        timeout,
+      );
+    }
+
+    for (const service of this._startedServices.splice(0).reverse()) {
+      try {
+        await untilAborted(service.stopAsync(timeout), timeout);
+      } catch (error) {
+        errors.push(error);
+      }
+    }
+
+    try {
+      await untilAborted(this.services.disposeAsync(), timeout);
+    } catch (error) {
+      errors.push(error);
+    }
+
+    if (errors.length > 0) {
+      throw new AggregateError(errors, 'One or more errors occurred while stopping the host.');
+    }
+  }
+}
+
+/**
+ * Builds an application host from the services registered with its service collection.
+ *
+ * @example
+ * ```typescript
+ * const builder = new HostBuilder();
+ *
+ * builder.services
+ *   .addSingleton(queueIdentifier, Queue)
+ *   .addHostedService(QueueWorker);
+ *
+ * await builder.build({ shutdownTimeout: 10_000 }).runAsync();
+ * ```
+ */
+export class HostBuilder {
+  /**
+   * The services of the application
+   */
+  public readonly services: IServiceCollection = new ServiceCollection();
+
+  /**
+   * Registers services of the application
+   *
+   * @param configure - Registers the services
+   * @returns The host builder for method chaining
+   */
+  configureServices(configure: (services: IServiceCollection) => void): HostBuilder {
+    configure(this.services);
+
+    return this;
+  }
+
+  /**
+   * Builds the root service provider and a host that owns it
+   *
+   * @param options - Optional settings that control how the provider resolves services and how the host stops
+   * @returns A new host
+   * @throws OptionsValidationError if configured options fail their validation
+   * @throws ContainerValidationError if validation on build is enabled and any service cannot be constructed
+   */
+  build(options?: HostOptions): IHost {
+    return new Host(this.services.build(options), options);
+  }
+}
+
+/**
+ * Creates an application host with the services registered by a callback
+ *
+ * @param configure - Registers the services of the application
+ * @param options - Optional settings that control how the provider resolves services and how the host stops
+ * @returns A new host
+ *
+ * @example
+ * ```typescript
+ * const host = createHost(services => {
+ *   services.addHostedService(QueueWorker);
+ * });
+ *
+ * await host.runAsync();
+ * ```
+ */
+export function createHost(
+  configure: (services: IServiceCollection) => void,
+  options?: HostOptions,
+): IHost {
+  return new HostBuilder().configureServices(configure).build(options);
+}
+
+/**
+ * Waits for a promise to settle, or for a signal to be aborted if that happens first
+ *
+ * @param promise - The promise to wait for
+ * @param signal - The signal that ends the wait
+ * @returns A promise that resolves once the promise has resolved or the signal has been aborted
+ * @throws The error the promise rejected with, if it settled first
+ */
+function untilAborted(promise: Promise<void>, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      promise.catch(() => undefined);
+      resolve();
+      return;
+    }
+
+    const onAbort = (): void => resolve();
+
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
@@ -4,3 +4,7 @@ export * from './serviceProvider.js';
 export * from './types.js';
 export * from './decorators.js';
 export * from './serviceCollection.js';
+export * from './errors.js';
+export * from './optionsSources.js';
+export * from './host.js';
+export * from './backgroundService.js';
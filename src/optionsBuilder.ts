@@ -0,0 +1,292 @@
+import { OptionsValidationError } from './errors.js';
+import type { OptionsSource } from './types.js';
+
+/**
+ * A check that configured options must pass
+ */
+type OptionsValidation<T> = {
+  /**
+   * Returns whether the options are valid
+   */
+  validate: (options: T) => boolean;
+
+  /**
+   * The failure reported when the options are not valid
+   */
+  message: string;
+};
+
+/**
+ * Collects the configuration of an options object and creates the frozen options from it.
+ *
+ * Values are merged into the options in registration order. Keys are matched case-insensitively,
+ * so that sources such as environment variables bind to camel-cased properties, and string values
+ * are converted to the type of the number or boolean they replace.
+ *
+ * @template T - The type of the options
+ * @internal
+ */
+export class OptionsBuilder<T extends object> {
+  /**
+   * The name of the options, used in error messages
+   */
+  private readonly _name: string;
+
+  /**
+   * Callbacks that merge values into the options or change them, in registration order
+   */
+  private readonly _configurations: ((options: T) => void)[] = [];
+
+  /**
+   * Callbacks that change the options once every configuration has been applied, in registration order
+   */
+  private readonly _postConfigurations: ((options: T) => void)[] = [];
+
+  /**
+   * Checks the options must pass once they have been configured
+   */
+  private readonly _validations: OptionsValidation<T>[] = [];
+
+  /**
+   * The sources the options are bound to, in registration order
+   */
+  private readonly _sources: OptionsSource[] = [];
+
+  /**
+   * Creates a new options builder
+   *
+   * @param name - The name of the options, used in error messages
+   */
+  constructor(name: string) {
+    this._name = name;
+  }
+
+  /**
+   * Adds values to merge into the options, or a callback that changes them
+   *
+   * @param configure - The values to merge or the callback
+   */
+  configure(configure: object | ((options: T) => void)): void {
+    this._configurations.push(
+      typeof configure === 'function'
+        ? (configure as (options: T) => void)
+        : options => mergeValues(options, configure as Record<string, unknown>, []),
+    );
+  }
+
+  /**
+   * Adds a source whose values are loaded and merged into the options when they are created
+   *
+   * @param source - The source to load the values from
+   * @param section - Optional dot-separated path of the section of the values to bind
+   */
+  bind(source: OptionsSource, section?: string): void {
+    this._sources.push(source);
+    this._configurations.push(options =>
+      mergeValues(options, getSection(source(), section), section ? section.split('.') : []),
+    );
+  }
+
+  /**
+   * Adds a callback that changes the options once every configuration has been applied
+   *
+   * @param configure - The callback
+   */
+  postConfigure(configure: (options: T) => void): void {
+    this._postConfigurations.push(configure);
+  }
+
+  /**
+   * Adds a check the options must pass once they have been configured
+   *
+   * @param validate - Returns whether the options are valid
+   * @param message - The failure reported when the options are not valid
+   */
+  validate(validate: (options: T) => boolean, message: string): void {
+    this._validations.push({ validate, message });
+  }
+
+  /**
+   * Watches every bound source that supports reloading for changes
+   *
+   * @param onChange - Called when the values of a source may have changed
+   * @returns A function that stops watching every source
+   */
+  watch(onChange: () => void): () => void {
+    const stopWatching = this._sources.flatMap(source =>
+      source.watch ? [source.watch(onChange)] : [],
+    );
+
+    return () => stopWatching.forEach(stop => stop());
+  }
+
+  /**
+   * Creates the options by applying every configuration, then validates and freezes them
+   *
+   * @returns The frozen options
+   * @throws OptionsValidationError if the options fail any of their validations
+   * @throws TypeError if a string value cannot be converted to the type of the value it replaces
+   */
+  build(): T {
+    const options = {} as T;
+
+    this._configurations.forEach(configure => configure(options));
+    this._postConfigurations.forEach(configure => configure(options));
+
+    const failures = this._validations
+      .filter(({ validate }) => !validate(options))
+      .map(({ message }) => message);
+
+    if (failures.length > 0) {
+      throw new OptionsValidationError(this._name, failures);
+    }
+
+    return deepFreeze(options);
+  }
+}
+
+/**
+ * Checks whether a value is a plain object whose properties can be merged
+ *
+ * @param value - The value to check
+ * @returns True if the value is an object literal or has no prototype, false otherwise
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Finds the key of an object that matches a key case-insensitively
+ *
+ * @param target - The object to search
+ * @param key - The key to match
+ * @returns The matching key of the object, or the given key if none matches
+ */
+function findKey(target: object, key: string): string {
+  const lowerKey = key.toLowerCase();
+
+  return Object.keys(target).find(existing => existing.toLowerCase() === lowerKey) ?? key;
+}
+
+/**
+ * Gets the values of a section, matching each segment of its path case-insensitively
+ *
+ * @param values - The values to search
+ * @param section - Optional dot-separated path of the section
+ * @returns The values of the section, or no values if the section does not exist
+ */
+function getSection(values: Record<string, unknown>, section?: string): Record<string, unknown> {
+  let current: unknown = values;
+
+  for (const segment of section ? section.split('.') : []) {
+    current = isPlainObject(current) ? current[findKey(current, segment)] : undefined;
+  }
+
+  return isPlainObject(current) ? current : {};
+}
+
+/**
+ * Recursively merges values into options, copying nested objects and arrays so that freezing the
+ * options does not freeze the values they were configured from
+ *
+ * @param target - The options to merge into
+ * @param source - The values to merge
+ * @param path - The path of the target within the options, used in error messages
+ * @throws TypeError if a string value cannot be converted to the type of the value it replaces
+ */
+function mergeValues(target: object, source: Record<string, unknown>, path: string[]): void {
+  const values = target as Record<string, unknown>;
+
+  for (const [sourceKey, value] of Object.entries(source)) {
+    const key = findKey(values, sourceKey);
+    const existing = values[key];
+
+    if (isPlainObject(value)) {
+      const nested = isPlainObject(existing) ? existing : {};
+      mergeValues(nested, value, [...path, key]);
+      values[key] = nested;
+    } else {
+      values[key] = convertValue(copyValue(value), existing, [...path, key]);
+    }
+  }
+}
+
+/**
+ * Copies arrays and plain objects so that they can be frozen without affecting the original
+ *
+ * @param value - The value to copy
+ * @returns A deep copy of an array or plain object, or the value itself
+ */
+function copyValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(copyValue);
+  }
+
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, nested]) => [key, copyValue(nested)]),
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Converts a string value, such as one read from an environment variable, to the type of the
+ * number or boolean it replaces
+ *
+ * @param value - The value to convert
+ * @param existing - The value being replaced
+ * @param path - The path of the value within the options, used in error messages
+ * @returns The converted value, or the value itself if no conversion applies
+ * @throws TypeError if the string cannot be converted
+ */
+function convertValue(value: unknown, existing: unknown, path: string[]): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  if (typeof existing === 'number') {
+    const number = Number(value);
+
+    if (value.trim() === '' || Number.isNaN(number)) {
+      throw new TypeError(`Cannot convert '${value}' to a number for option '${path.join('.')}'.`);
+    }
+
+    return number;
+  }
+
+  if (typeof existing === 'boolean') {
+    const normalized = value.trim().toLowerCase();
+
+    if (normalized !== 'true' && normalized !== 'false') {
+      throw new TypeError(`Cannot convert '${value}' to a boolean for option '${path.join('.')}'.`);
+    }
+
+    return normalized === 'true';
+  }
+
+  return value;
+}
+
+/**
+ * Freezes an object and every object and array nested in it
+ *
+ * @template T - The type of the object
+ * @param value - The object to freeze
+ * @returns The frozen object
+ */
+function deepFreeze<T>(value: T): T {
+  if (value !== null && typeof value === 'object' && !Object.isFrozen(value)) {
+    Object.values(value).forEach(deepFreeze);
+    Object.freeze(value);
+  }
+
+  return value;
+}
@@ -0,0 +1,98 @@
+import type { OptionsBuilder } from './optionsBuilder.js';
+import type { IOptionsMonitor } from './types.js';
+
+/**
+ * Provides the current value of configured options and creates them again when a watched source
+ * changes.
+ *
+ * The monitor is registered as a singleton, so it starts watching the sources of the options when
+ * it is first resolved, reading them again at that point, and stops when the provider that created
+ * it is disposed. When reloading fails, for example because a file is only partially written or
+ * the new values fail validation, the previous options are kept. Listeners are only notified when
+ * the options actually change.
+ *
+ * @template T - The type of the options
+ * @internal
+ */
+export class OptionsMonitor<T extends object> implements IOptionsMonitor<T>, Disposable {
+  /**
+   * The builder the options are created with
+   */
+  private readonly _builder: OptionsBuilder<T>;
+
+  /**
+   * The listeners called with the new options each time they change
+   */
+  private readonly _listeners: Set<(options: T) => void> = new Set();
+
+  /**
+   * Stops watching the sources of the options
+   */
+  private readonly _stopWatching: () => void;
+
+  /**
+   * The options created from the latest values of their sources
+   */
+  private _currentValue: T;
+
+  /**
+   * Creates a new options monitor, starts watching the sources of the options and creates the
+   * options again, so that changes made since the provider was built are not missed
+   *
+   * @param builder - The builder the options are created with
+   * @param initialValue - The options created when the provider was built
+   */
+  constructor(builder: OptionsBuilder<T>, initialValue: T) {
+    this._builder = builder;
+    this._currentValue = initialValue;
+    this._stopWatching = builder.watch(() => this.reload());
+    this.reload();
+  }
+
+  /**
+   * The options created from the latest values of their sources
+   */
+  get currentValue(): T {
+    return this._currentValue;
+  }
+
+  /**
+   * Registers a listener called with the new options each time they are reloaded
+   *
+   * @param listener - The listener to call
+   * @returns A function that removes the listener
+   */
+  onChange(listener: (options: T) => void): () => void {
+    this._listeners.add(listener);
+
+    return () => this._listeners.delete(listener);
+  }
+
+  /**
+   * Stops watching the sources of the options and removes every listener
+   */
+  [Symbol.dispose](): void {
+    this._stopWatching();
+    this._listeners.clear();
+  }
+
+  /**
+   * Creates the options again and notifies the listeners if they changed
+   */
+  private reload(): void {
+    let options: T;
+
+    try {
+      options = this._builder.build();
+    } catch {
+      return;
+    }
+
+    if (JSON.stringify(options) === JSON.stringify(this._currentValue)) {
+      return;
+    }
+
+    this._currentValue = options;
+    this._listeners.forEach(listener => listener(options));
+  }
+}
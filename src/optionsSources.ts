@@ -0,0 +1,110 @@
+import { existsSync, readFileSync, watch } from 'node:fs';
+import { basename, dirname } from 'node:path';
+import type { JsonFileSourceOptions, OptionsSource } from './types.js';
+
+/**
+ * Creates an options source that provides the values of a plain object
+ *
+ * @param values - The values to provide
+ * @returns An options source for the values
+ *
+ * @example
+ * ```typescript
+ * services.bindOptions(databaseOptionsIdentifier, objectSource(config), 'db');
+ * ```
+ */
+export function objectSource(values: Record<string, unknown>): OptionsSource {
+  return () => values;
+}
+
+/**
+ * Creates an options source that reads the values of a JSON file when the provider is built
+ *
+ * With `reloadOnChange`, options monitors read the file again each time it is written, created,
+ * replaced or deleted. The directory of the file is watched rather than the file itself, so that
+ * editors that save by replacing the file are also seen.
+ *
+ * @param path - The path of the JSON file
+ * @param options - Optional settings, such as whether the file may be missing
+ * @returns An options source for the contents of the file
+ *
+ * @example
+ * ```typescript
+ * services.bindOptions(
+ *   databaseOptionsIdentifier,
+ *   jsonFileSource('appsettings.json', { reloadOnChange: true }),
+ *   'db',
+ * );
+ * ```
+ */
+export function jsonFileSource(path: string, options?: JsonFileSourceOptions): OptionsSource {
+  const source: OptionsSource = () => {
+    if (options?.optional && !existsSync(path)) {
+      return {};
+    }
+
+    return JSON.parse(readFileSync(path, 'utf8'));
+  };
+
+  if (options?.reloadOnChange) {
+    source.watch = onChange => {
+      const watcher = watch(dirname(path), { persistent: false }, (_event, fileName) => {
+        if (fileName === null || fileName === basename(path)) {
+          onChange();
+        }
+      });
+
+      return () => watcher.close();
+    };
+  }
+
+  return source;
+}
+
+/**
+ * Creates an options source that reads the environment variables starting with a prefix when the
+ * provider is built
+ *
+ * Double underscores separate nested keys, so with the prefix `APP` the variable `APP__DB__HOST`
+ * provides the value of `db.host`. Keys are lower-cased and bound to options properties
+ * case-insensitively.
+ *
+ * @param prefix - The prefix of the environment variables, without the trailing double underscore
+ * @param env - Optional environment variables to read instead of `process.env`
+ * @returns An options source for the environment variables
+ *
+ * @example
+ * ```typescript
+ * services.bindOptions(databaseOptionsIdentifier, environmentSource('APP'), 'db');
+ * ```
+ */
+export function environmentSource(
+  prefix: string,
+  env: Record<string, string | undefined> = process.env,
+): OptionsSource {
+  return () => {
+    const values: Record<string, unknown> = {};
+    const start = `${prefix}__`.toLowerCase();
+
+    for (const [name, value] of Object.entries(env)) {
+      if (value === undefined || !name.toLowerCase().startsWith(start)) {
+        continue;
+      }
+
+      const keys = name.slice(start.length).toLowerCase().split('__');
+      const last = keys.pop()!;
+      let current = values;
+
+      for (const key of keys) {
+        const nested = current[key];
+        current = (
+          nested !== null && typeof nested === 'object' ? nested : (current[key] = {})
+        ) as Record<string, unknown>;
+      }
+
+      current[last] = value;
+    }
+
+    return values;
+  };
+}
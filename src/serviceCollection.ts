@@ -1,12 +1,34 @@
+import { getInjectableOptions } from './decorators.js';
+import { OptionsBuilder } from './optionsBuilder.js';
+import { OptionsMonitor } from './optionsMonitor.js';
+import { describeServiceIdentifier } from './serviceNames.js';
 import { ServiceProvider } from './serviceProvider.js';
+import {
+  createServiceIdentifier,
+  hostedServiceIdentifier,
+  optionsMonitorOf,
+  optionsSnapshotOf,
+  serviceIdentifierOf,
+} from './types.js';
 import type {
+  AsyncServiceFactory,
   Constructor,
+  DeepPartial,
+  IHostedService,
   IServiceCollection,
   IServiceProvider,
+  KeyedServiceFactory,
+  OpenServiceFactory,
+  OptionsSource,
+  ServiceDecorator,
   ServiceDescriptor,
   ServiceFactory,
   ServiceIdentifier,
+  ServiceIdentifierFamily,
+  ServiceKey,
   ServiceLifetime,
+  ServiceProviderOptions,
+  SingletonOptions,
 } from './types.js';
 
 /**
@@ -19,11 +41,61 @@ import type {
  */
 export class ServiceCollection implements IServiceCollection {
   /**
-   * Internal map of service descriptors, keyed by service identifiers
+   * Internal map of service descriptors, keyed by service identifiers, in registration order
+   */
+  private readonly _descriptors: Map<ServiceIdentifier<unknown>, ServiceDescriptor<unknown>[]> =
+    new Map();
+
+  /**
+   * Internal map of keyed service descriptors, keyed by service identifiers and then by service keys, in registration order
+   */
+  private readonly _keyedDescriptors: Map<
+    ServiceIdentifier<unknown>,
+    Map<ServiceKey, ServiceDescriptor<unknown>[]>
+  > = new Map();
+
+  /**
+   * Internal map of the configuration of each options object, keyed by service identifiers
    */
-  private readonly _descriptors: Map<ServiceIdentifier<unknown>, ServiceDescriptor<unknown>> =
+  private readonly _optionsBuilders: Map<ServiceIdentifier<unknown>, OptionsBuilder<object>> =
     new Map();
 
+  /**
+   * Registers a class with the lifetime given by its `@injectable()` decorator, or as a transient
+   * service when the decorator does not specify one.
+   *
+   * When no service identifier is given, the class is registered as its own service under
+   * `serviceIdentifierOf(implementationType)`.
+   *
+   * @template T - The type of the service to register
+   * @param serviceTypeOrImplementation - The service identifier, or the class to register as its own service
+   * @param implementationType - The implementation class, when a service identifier is given
+   * @returns The service collection instance for method chaining
+   *
+   * @example
+   * ```typescript
+   * @injectable({ lifetime: 'scoped' })
+   * class UserService {}
+   *
+   * services.add(userServiceIdentifier, UserService);
+   * // or as its own service:
+   * services.add(UserService);
+   * provider.getService(serviceIdentifierOf(UserService));
+   * ```
+   */
+  public add<T>(
+    serviceTypeOrImplementation: ServiceIdentifier<T> | Constructor<T>,
+    implementationType?: Constructor<T>,
+  ): IServiceCollection {
+    const [serviceType, implementation] =
+      typeof serviceTypeOrImplementation === 'function'
+        ? [serviceIdentifierOf(serviceTypeOrImplementation), serviceTypeOrImplementation]
+        : [serviceTypeOrImplementation, implementationType!];
+    const lifetime = getInjectableOptions(implementation)?.lifetime ?? 'transient';
+
+    return this.addWithLifetime(serviceType, implementation, lifetime);
+  }
+
   /**
    * Registers a singleton service with the collection.
    *
@@ -32,6 +104,9 @@ export class ServiceCollection implements IServiceCollection {
    * @template T - The type of the service to register
    * @param serviceType - The service identifier
    * @param implementationOrFactory - The implementation class or factory function
+   * @param dependenciesOrOptions - The service identifiers to inject into the constructor
+   * parameters of the implementation class, or the settings for the singleton registration
+   * @param options - Optional settings for the singleton registration, when dependencies are given
    * @returns The service collection instance for method chaining
    *
    * @example
@@ -39,13 +114,35 @@ export class ServiceCollection implements IServiceCollection {
    * services.addSingleton(userServiceIdentifier, UserService);
    * // or with a factory:
    * services.addSingleton(userServiceIdentifier, (provider) => new UserService(provider.getService(loggerIdentifier)));
+   * // or created when the provider is built:
+   * services.addSingleton(userServiceIdentifier, UserService, { eager: true });
+   * // or without decorators:
+   * services.addSingleton(userServiceIdentifier, UserService, [loggerIdentifier]);
    * ```
    */
   public addSingleton<T>(
     serviceType: ServiceIdentifier<T>,
     implementationOrFactory: ServiceFactory<T> | Constructor<T>,
+    dependenciesOrOptions?: readonly ServiceIdentifier<unknown>[] | SingletonOptions,
+    options?: SingletonOptions,
   ): IServiceCollection {
-    return this.add(serviceType, implementationOrFactory, 'singleton');
+    const dependencies = Array.isArray(dependenciesOrOptions) ? dependenciesOrOptions : undefined;
+    const descriptor = this.createDescriptor(
+      serviceType,
+      implementationOrFactory,
+      'singleton',
+      dependencies,
+    );
+
+    const { eager } = (dependencies ? options : (dependenciesOrOptions as SingletonOptions)) ?? {};
+
+    if (eager) {
+      descriptor.eager = true;
+    }
+
+    this.addDescriptor(descriptor);
+
+    return this;
   }
 
   /**
@@ -57,6 +154,7 @@ export class ServiceCollection implements IServiceCollection {
    * @template T - The type of the service to register
    * @param serviceType - The service identifier
    * @param implementationOrFactory - The implementation class or factory function
+   * @param dependencies - Optional service identifiers to inject into the constructor parameters of the implementation class
    * @returns The service collection instance for method chaining
    *
    * @example
@@ -64,13 +162,16 @@ export class ServiceCollection implements IServiceCollection {
    * services.addScoped(userServiceIdentifier, UserService);
    * // or with a factory:
    * services.addScoped(userServiceIdentifier, (provider) => new UserService(provider.getService(loggerIdentifier)));
+   * // or without decorators:
+   * services.addScoped(userServiceIdentifier, UserService, [loggerIdentifier]);
    * ```
    */
   public addScoped<T>(
     serviceType: ServiceIdentifier<T>,
     implementationOrFactory: ServiceFactory<T> | Constructor<T>,
+    dependencies?: readonly ServiceIdentifier<unknown>[],
   ): IServiceCollection {
-    return this.add(serviceType, implementationOrFactory, 'scoped');
+    return this.addWithLifetime(serviceType, implementationOrFactory, 'scoped', dependencies);
   }
 
   /**
@@ -81,6 +182,7 @@ export class ServiceCollection implements IServiceCollection {
    * @template T - The type of the service to register
    * @param serviceType - The service identifier
    * @param implementationOrFactory - The implementation class or factory function
+   * @param dependencies - Optional service identifiers to inject into the constructor parameters of the implementation class
    * @returns The service collection instance for method chaining
    *
    * @example
@@ -88,22 +190,733 @@ export class ServiceCollection implements IServiceCollection {
    * services.addTransient(userServiceIdentifier, UserService);
    * // or with a factory:
    * services.addTransient(userServiceIdentifier, (provider) => new UserService(provider.getService(loggerIdentifier)));
+   * // or without decorators:
+   * services.addTransient(userServiceIdentifier, UserService, [loggerIdentifier]);
    * ```
    */
   public addTransient<T>(
     serviceType: ServiceIdentifier<T>,
     implementationOrFactory: ServiceFactory<T> | Constructor<T>,
+    dependencies?: readonly ServiceIdentifier<unknown>[],
+  ): IServiceCollection {
+    return this.addWithLifetime(serviceType, implementationOrFactory, 'transient', dependencies);
+  }
+
+  /**
+   * Registers a scoped service whose instance is provided to each scope rather than created by the container.
+   *
+   * Placeholders suit per-request data such as the current request, user or tenant. Resolving a
+   * placeholder in a scope it has not been provided to throws a `ScopedValueNotProvidedError`.
+   *
+   * @template T - The type of the service to register
+   * @param serviceType - The service identifier
+   * @returns The service collection instance for method chaining
+   *
+   * @example
+   * ```typescript
+   * services.addScopedPlaceholder(requestIdentifier);
+   *
+   * const scope = provider.createScope({ values: [[requestIdentifier, request]] });
+   * ```
+   */
+  public addScopedPlaceholder<T>(serviceType: ServiceIdentifier<T>): IServiceCollection {
+    this.addDescriptor({
+      serviceType,
+      implementationType: Object as unknown as Constructor<T>,
+      lifetime: 'scoped',
+      placeholder: true,
+    });
+
+    return this;
+  }
+
+  /**
+   * Registers a singleton service that the host starts and stops with the application.
+   *
+   * Hosted services are registered under `hostedServiceIdentifier`, started in registration order
+   * and stopped in the reverse order.
+   *
+   * @template T - The type of the hosted service
+   * @param implementationType - The hosted service class
+   * @param dependencies - Optional identifiers of the services to inject into each constructor parameter
+   * @returns The service collection instance for method chaining
+   *
+   * @example
+   * ```typescript
+   * services.addHostedService(QueueWorker);
+   * ```
+   */
+  public addHostedService<T extends IHostedService>(
+    implementationType: Constructor<T>,
+    dependencies?: readonly ServiceIdentifier<unknown>[],
+  ): IServiceCollection {
+    return this.addSingleton(hostedServiceIdentifier, implementationType, dependencies);
+  }
+
+  /**
+   * Registers a singleton service created by an asynchronous factory.
+   *
+   * The service must be resolved with `getServiceAsync()`. Concurrent requests share the same
+   * in-flight creation, so the factory runs only once.
+   *
+   * @template T - The type of the service to register
+   * @param serviceType - The service identifier
+   * @param factory - The asynchronous factory function
+   * @returns The service collection instance for method chaining
+   *
+   * @example
+   * ```typescript
+   * services.addSingletonAsync(databaseIdentifier, async (provider) => {
+   *   const database = new Database(provider.getService(configIdentifier));
+   *   await database.connect();
+   *   return database;
+   * });
+   * ```
+   */
+  public addSingletonAsync<T>(
+    serviceType: ServiceIdentifier<T>,
+    factory: AsyncServiceFactory<T>,
+  ): IServiceCollection {
+    return this.addAsync(serviceType, factory, 'singleton');
+  }
+
+  /**
+   * Registers a scoped service created by an asynchronous factory.
+   *
+   * The service must be resolved with `getServiceAsync()`. Concurrent requests within a scope
+   * share the same in-flight creation.
+   *
+   * @template T - The type of the service to register
+   * @param serviceType - The service identifier
+   * @param factory - The asynchronous factory function
+   * @returns The service collection instance for method chaining
+   *
+   * @example
+   * ```typescript
+   * services.addScopedAsync(transactionIdentifier, (provider) => provider.getService(databaseIdentifier).beginTransaction());
+   * ```
+   */
+  public addScopedAsync<T>(
+    serviceType: ServiceIdentifier<T>,
+    factory: AsyncServiceFactory<T>,
+  ): IServiceCollection {
+    return this.addAsync(serviceType, factory, 'scoped');
+  }
+
+  /**
+   * Registers a transient service created by an asynchronous factory.
+   *
+   * The service must be resolved with `getServiceAsync()`.
+   *
+   * @template T - The type of the service to register
+   * @param serviceType - The service identifier
+   * @param factory - The asynchronous factory function
+   * @returns The service collection instance for method chaining
+   *
+   * @example
+   * ```typescript
+   * services.addTransientAsync(connectionIdentifier, () => openConnection());
+   * ```
+   */
+  public addTransientAsync<T>(
+    serviceType: ServiceIdentifier<T>,
+    factory: AsyncServiceFactory<T>,
+  ): IServiceCollection {
+    return this.addAsync(serviceType, factory, 'transient');
+  }
+
+  /**
+   * Registers a keyed singleton service with the collection.
+   *
+   * Keyed services let several implementations share one service identifier. They are resolved
+   * with `getKeyedService()` or injected with `@injectKeyed()`, and are not returned by
+   * `getService()` or `getServices()`.
+   *
+   * @template T - The type of the service to register
+   * @param serviceType - The service identifier
+   * @param serviceKey - The key that distinguishes this implementation
+   * @param implementationOrFactory - The implementation class or a factory function that receives the key
+   * @returns The service collection instance for method chaining
+   *
+   * @example
+   * ```typescript
+   * services.addKeyedSingleton(storageIdentifier, 's3', S3Storage);
+   * // or with a factory:
+   * services.addKeyedSingleton(storageIdentifier, 'memory', (provider, key) => new MemoryStorage(key));
+   * ```
+   */
+  public addKeyedSingleton<T>(
+    serviceType: ServiceIdentifier<T>,
+    serviceKey: ServiceKey,
+    implementationOrFactory: Constructor<T> | KeyedServiceFactory<T>,
+  ): IServiceCollection {
+    return this.addKeyed(serviceType, serviceKey, implementationOrFactory, 'singleton');
+  }
+
+  /**
+   * Registers a keyed scoped service with the collection.
+   *
+   * @template T - The type of the service to register
+   * @param serviceType - The service identifier
+   * @param serviceKey - The key that distinguishes this implementation
+   * @param implementationOrFactory - The implementation class or a factory function that receives the key
+   * @returns The service collection instance for method chaining
+   *
+   * @example
+   * ```typescript
+   * services.addKeyedScoped(storageIdentifier, 'local', LocalStorage);
+   * ```
+   */
+  public addKeyedScoped<T>(
+    serviceType: ServiceIdentifier<T>,
+    serviceKey: ServiceKey,
+    implementationOrFactory: Constructor<T> | KeyedServiceFactory<T>,
+  ): IServiceCollection {
+    return this.addKeyed(serviceType, serviceKey, implementationOrFactory, 'scoped');
+  }
+
+  /**
+   * Registers a keyed transient service with the collection.
+   *
+   * @template T - The type of the service to register
+   * @param serviceType - The service identifier
+   * @param serviceKey - The key that distinguishes this implementation
+   * @param implementationOrFactory - The implementation class or a factory function that receives the key
+   * @returns The service collection instance for method chaining
+   *
+   * @example
+   * ```typescript
+   * services.addKeyedTransient(storageIdentifier, 'memory', MemoryStorage);
+   * ```
+   */
+  public addKeyedTransient<T>(
+    serviceType: ServiceIdentifier<T>,
+    serviceKey: ServiceKey,
+    implementationOrFactory: Constructor<T> | KeyedServiceFactory<T>,
+  ): IServiceCollection {
+    return this.addKeyed(serviceType, serviceKey, implementationOrFactory, 'transient');
+  }
+
+  /**
+   * Registers a singleton service for every member of an identifier family.
+   *
+   * The factory runs once per member, the first time the member is requested.
+   *
+   * @template TToken - The type of the tokens the family's members are derived from
+   * @template T - The type of the service to register
+   * @param family - The identifier family
+   * @param factory - The factory function that creates the service for a member's token
+   * @returns The service collection instance for method chaining
+   *
+   * @example
+   * ```typescript
+   * services.addSingletonOpen(cacheOf, (provider, entity) => new EntityCache(entity));
+   * ```
+   */
+  public addSingletonOpen<TToken, T>(
+    family: ServiceIdentifierFamily<TToken, T>,
+    factory: OpenServiceFactory<TToken, T>,
+  ): IServiceCollection {
+    return this.addOpen(family, factory, 'singleton');
+  }
+
+  /**
+   * Registers a scoped service for every member of an identifier family.
+   *
+   * The factory runs once per member in each scope. Members registered explicitly take
+   * precedence over the open registration.
+   *
+   * @template TToken - The type of the tokens the family's members are derived from
+   * @template T - The type of the service to register
+   * @param family - The identifier family
+   * @param factory - The factory function that creates the service for a member's token
+   * @returns The service collection instance for method chaining
+   *
+   * @example
+   * ```typescript
+   * services.addScopedOpen(repositoryOf, (provider, entity) => new Repository(provider.getService(dbIdentifier), entity));
+   *
+   * const userRepository = scope.serviceProvider.getService(repositoryOf(User));
+   * ```
+   */
+  public addScopedOpen<TToken, T>(
+    family: ServiceIdentifierFamily<TToken, T>,
+    factory: OpenServiceFactory<TToken, T>,
+  ): IServiceCollection {
+    return this.addOpen(family, factory, 'scoped');
+  }
+
+  /**
+   * Registers a transient service for every member of an identifier family.
+   *
+   * @template TToken - The type of the tokens the family's members are derived from
+   * @template T - The type of the service to register
+   * @param family - The identifier family
+   * @param factory - The factory function that creates the service for a member's token
+   * @returns The service collection instance for method chaining
+   *
+   * @example
+   * ```typescript
+   * services.addTransientOpen(validatorOf, (provider, entity) => new Validator(entity));
+   * ```
+   */
+  public addTransientOpen<TToken, T>(
+    family: ServiceIdentifierFamily<TToken, T>,
+    factory: OpenServiceFactory<TToken, T>,
+  ): IServiceCollection {
+    return this.addOpen(family, factory, 'transient');
+  }
+
+  /**
+   * Registers a singleton service with the collection if the service has not already been registered.
+   *
+   * @template T - The type of the service to register
+   * @param serviceType - The service identifier
+   * @param implementationOrFactory - The implementation class or factory function
+   * @returns The service collection instance for method chaining
+   *
+   * @example
+   * ```typescript
+   * services.tryAddSingleton(loggerIdentifier, ConsoleLogger);
+   * ```
+   */
+  public tryAddSingleton<T>(
+    serviceType: ServiceIdentifier<T>,
+    implementationOrFactory: ServiceFactory<T> | Constructor<T>,
+  ): IServiceCollection {
+    return this.tryAdd(serviceType, implementationOrFactory, 'singleton');
+  }
+
+  /**
+   * Registers a scoped service with the collection if the service has not already been registered.
+   *
+   * @template T - The type of the service to register
+   * @param serviceType - The service identifier
+   * @param implementationOrFactory - The implementation class or factory function
+   * @returns The service collection instance for method chaining
+   *
+   * @example
+   * ```typescript
+   * services.tryAddScoped(unitOfWorkIdentifier, UnitOfWork);
+   * ```
+   */
+  public tryAddScoped<T>(
+    serviceType: ServiceIdentifier<T>,
+    implementationOrFactory: ServiceFactory<T> | Constructor<T>,
+  ): IServiceCollection {
+    return this.tryAdd(serviceType, implementationOrFactory, 'scoped');
+  }
+
+  /**
+   * Registers a transient service with the collection if the service has not already been registered.
+   *
+   * @template T - The type of the service to register
+   * @param serviceType - The service identifier
+   * @param implementationOrFactory - The implementation class or factory function
+   * @returns The service collection instance for method chaining
+   *
+   * @example
+   * ```typescript
+   * services.tryAddTransient(clockIdentifier, SystemClock);
+   * ```
+   */
+  public tryAddTransient<T>(
+    serviceType: ServiceIdentifier<T>,
+    implementationOrFactory: ServiceFactory<T> | Constructor<T>,
+  ): IServiceCollection {
+    return this.tryAdd(serviceType, implementationOrFactory, 'transient');
+  }
+
+  /**
+   * Wraps every registration of a service with a decorator, keeping each registration's lifetime.
+   *
+   * The decorator is either a function that receives the wrapped instance, or a class whose
+   * constructor receives the wrapped instance through `@inject(serviceType)` alongside any other
+   * dependencies. When a service is decorated more than once, decorators apply in registration
+   * order, so the last decorator is the outermost. Without a key, only the registrations made
+   * without a key are decorated.
+   *
+   * @template T - The type of the service to decorate
+   * @param serviceType - The service identifier
+   * @param decoratorOrType - The decorator function or class
+   * @param serviceKey - The key of the keyed registrations to decorate, if any
+   * @returns The service collection instance for method chaining
+   * @throws Error if the service has not been registered
+   *
+   * @example
+   * ```typescript
+   * services.addScoped(repositoryIdentifier, Repository);
+   * services.decorate(repositoryIdentifier, (inner, provider) => new CachingRepository(inner));
+   * // or with a class:
+   * services.decorate(repositoryIdentifier, LoggingRepository);
+   * ```
+   */
+  public decorate<T>(
+    serviceType: ServiceIdentifier<T>,
+    decoratorOrType: ServiceDecorator<T> | Constructor<T>,
+    serviceKey?: ServiceKey,
+  ): IServiceCollection {
+    const registered = this.getRegistered(serviceType, serviceKey);
+
+    if (!registered?.length) {
+      throw new Error(
+        `Cannot decorate service '${describeServiceIdentifier(serviceType, serviceKey)}' because it is not registered.`,
+      );
+    }
+
+    const decorated: ServiceDescriptor<unknown>[] = registered.map(inner => {
+      const decoratedType = createServiceIdentifier<T>(serviceType.description);
+
+      this.addDescriptor({ ...inner, serviceType: decoratedType, serviceKey: undefined });
+
+      return this.isConstructor(decoratorOrType)
+        ? {
+            serviceType,
+            implementationType: decoratorOrType,
+            lifetime: inner.lifetime,
+            serviceKey,
+            decoratedType,
+            injectedDecoratedType: serviceType,
+          }
+        : {
+            serviceType,
+            implementationType: Object as unknown as Constructor<T>,
+            lifetime: inner.lifetime,
+            serviceKey,
+            decorator: decoratorOrType as ServiceDecorator<T>,
+            decoratedType,
+          };
+    });
+
+    registered.splice(0, registered.length, ...decorated);
+
+    return this;
+  }
+
+  /**
+   * Adds a service descriptor to the collection unless a descriptor with the same service
+   * identifier and implementation type has already been registered.
+   *
+   * This is useful for registering one of many implementations of a service without
+   * registering the same implementation twice.
+   *
+   * @template T - The type of the service to register
+   * @param descriptor - The service descriptor to add
+   * @returns The service collection instance for method chaining
+   * @throws Error if the descriptor uses a factory, since its implementation type cannot be determined
+   *
+   * @example
+   * ```typescript
+   * services.tryAddEnumerable({
+   *   serviceType: middlewareIdentifier,
+   *   implementationType: LoggingMiddleware,
+   *   lifetime: 'singleton',
+   * });
+   * ```
+   */
+  public tryAddEnumerable<T>(descriptor: ServiceDescriptor<T>): IServiceCollection {
+    if (descriptor.factory || descriptor.asyncFactory) {
+      throw new Error(
+        'Cannot add a factory registration as an enumerable service because its implementation type cannot be determined.',
+      );
+    }
+
+    const registered = this._descriptors.get(descriptor.serviceType) ?? [];
+    const isRegistered = registered.some(
+      existing =>
+        existing.factory === undefined &&
+        existing.asyncFactory === undefined &&
+        existing.implementationType === descriptor.implementationType,
+    );
+
+    if (isRegistered === false) {
+      this.addDescriptor(descriptor);
+    }
+
+    return this;
+  }
+
+  /**
+   * Replaces the first service descriptor registered for the descriptor's service identifier and key.
+   *
+   * The existing descriptor is removed and the given descriptor is added to the end of the
+   * registrations for its service identifier. A descriptor with a `serviceKey` replaces a keyed
+   * registration with the same key.
+   *
+   * @template T - The type of the service to register
+   * @param descriptor - The service descriptor to register in place of the existing one
+   * @returns The service collection instance for method chaining
+   *
+   * @example
+   * ```typescript
+   * services.replace({
+   *   serviceType: loggerIdentifier,
+   *   implementationType: FileLogger,
+   *   lifetime: 'singleton',
+   * });
+   * ```
+   */
+  public replace<T>(descriptor: ServiceDescriptor<T>): IServiceCollection {
+    this.getRegistered(descriptor.serviceType, descriptor.serviceKey)?.shift();
+
+    if (descriptor.serviceKey === undefined) {
+      this.addDescriptor(descriptor);
+    } else {
+      this.addKeyedDescriptor(descriptor);
+    }
+
+    return this;
+  }
+
+  /**
+   * Removes every service descriptor registered for a service identifier, either without a key or
+   * with the given key.
+   *
+   * @template T - The type of the service to remove
+   * @param serviceType - The service identifier
+   * @param serviceKey - The key of the keyed registrations to remove, if any
+   * @returns The service collection instance for method chaining
+   *
+   * @example
+   * ```typescript
+   * services.removeAll(storageIdentifier);
+   * services.removeAll(storageIdentifier, 's3');
+   * ```
+   */
+  public removeAll<T>(
+    serviceType: ServiceIdentifier<T>,
+    serviceKey?: ServiceKey,
+  ): IServiceCollection {
+    if (serviceKey === undefined) {
+      this._descriptors.delete(serviceType);
+    } else {
+      this._keyedDescriptors.get(serviceType)?.delete(serviceKey);
+    }
+
+    return this;
+  }
+
+  /**
+   * Checks whether a service has been registered with the collection, either without a key or with
+   * the given key.
+   *
+   * @template T - The type of the service
+   * @param serviceType - The service identifier
+   * @param serviceKey - The key of the keyed registrations to look for, if any
+   * @returns True if at least one descriptor is registered for the service identifier and key, false otherwise
+   */
+  public contains<T>(serviceType: ServiceIdentifier<T>, serviceKey?: ServiceKey): boolean {
+    return (this.getRegistered(serviceType, serviceKey)?.length ?? 0) > 0;
+  }
+
+  /**
+   * Configures an options object, either by merging values into it or with a callback that changes it.
+   *
+   * Options are created when the provider is built by applying their configurations and bound
+   * sources in registration order, then their post-configurations. They are registered as a frozen
+   * singleton that services inject with the options identifier.
+   *
+   * @template T - The type of the options
+   * @param optionsType - The service identifier the options are injected with
+   * @param configure - The values to merge, such as defaults, or a callback that changes the options
+   * @returns The service collection instance for method chaining
+   *
+   * @example
+   * ```typescript
+   * services.configure(databaseOptionsIdentifier, { host: 'localhost', port: 5432 });
+   * ```
+   */
+  public configure<T extends object>(
+    optionsType: ServiceIdentifier<T>,
+    configure: DeepPartial<T> | ((options: T) => void),
+  ): IServiceCollection {
+    this.getOptionsBuilder(optionsType).configure(configure);
+
+    return this;
+  }
+
+  /**
+   * Binds an options object to the values loaded from a source when the provider is built.
+   *
+   * Keys are matched case-insensitively and string values are converted to the type of the number
+   * or boolean they replace, so values read from environment variables bind to typed defaults.
+   *
+   * @template T - The type of the options
+   * @param optionsType - The service identifier the options are injected with
+   * @param source - The source to load the values from
+   * @param section - Optional dot-separated path of the section of the values to bind
+   * @returns The service collection instance for method chaining
+   *
+   * @example
+   * ```typescript
+   * services
+   *   .bindOptions(databaseOptionsIdentifier, jsonFileSource('appsettings.json'), 'db')
+   *   .bindOptions(databaseOptionsIdentifier, environmentSource('APP'), 'db');
+   * ```
+   */
+  public bindOptions<T extends object>(
+    optionsType: ServiceIdentifier<T>,
+    source: OptionsSource,
+    section?: string,
+  ): IServiceCollection {
+    this.getOptionsBuilder(optionsType).bind(source, section);
+
+    return this;
+  }
+
+  /**
+   * Configures an options object after every other configuration has been applied.
+   *
+   * @template T - The type of the options
+   * @param optionsType - The service identifier the options are injected with
+   * @param configure - A callback that changes the options
+   * @returns The service collection instance for method chaining
+   *
+   * @example
+   * ```typescript
+   * services.postConfigure(databaseOptionsIdentifier, options => {
+   *   options.connectionString ??= `postgres://${options.host}:${options.port}`;
+   * });
+   * ```
+   */
+  public postConfigure<T extends object>(
+    optionsType: ServiceIdentifier<T>,
+    configure: (options: T) => void,
   ): IServiceCollection {
-    return this.add(serviceType, implementationOrFactory, 'transient');
+    this.getOptionsBuilder(optionsType).postConfigure(configure);
+
+    return this;
+  }
+
+  /**
+   * Adds a check that the configured options must pass when the provider is built.
+   *
+   * @template T - The type of the options
+   * @param optionsType - The service identifier the options are injected with
+   * @param validate - Returns whether the options are valid
+   * @param message - The failure reported when the options are not valid
+   * @returns The service collection instance for method chaining
+   *
+   * @example
+   * ```typescript
+   * services.validateOptions(databaseOptionsIdentifier, options => options.port > 0, 'The port must be positive.');
+   * ```
+   */
+  public validateOptions<T extends object>(
+    optionsType: ServiceIdentifier<T>,
+    validate: (options: T) => boolean,
+    message: string,
+  ): IServiceCollection {
+    this.getOptionsBuilder(optionsType).validate(validate, message);
+
+    return this;
   }
 
   /**
    * Builds a service provider from the registered services.
    *
+   * @param options - Optional settings that control how the provider resolves services
    * @returns A new service provider that can resolve the registered services
+   * @throws OptionsValidationError if configured options fail their validation
+   * @throws ContainerValidationError if validation on build is enabled and any service cannot be constructed
+   *
+   * @example
+   * ```typescript
+   * const provider = services.build({ validateScopes: true });
+   * ```
+   */
+  public build(options?: ServiceProviderOptions): IServiceProvider {
+    return new ServiceProvider(this.getDescriptorMap(), options);
+  }
+
+  /**
+   * Gets every registered descriptor, keyed or not, grouped by service identifier.
+   *
+   * Configured options are created at this point and registered after the other registrations
+   * for their identifier, along with their singleton monitor and scoped snapshot.
+   *
+   * @returns A new map of the descriptors registered for each service identifier, in registration order
+   * @throws OptionsValidationError if configured options fail their validation
+   * @internal
    */
-  public build(): IServiceProvider {
-    return new ServiceProvider(this._descriptors);
+  public getDescriptorMap(): Map<ServiceIdentifier<unknown>, ServiceDescriptor<unknown>[]> {
+    const descriptors = new Map(
+      Array.from(this._descriptors, ([serviceType, registered]) => [serviceType, [...registered]]),
+    );
+
+    for (const [serviceType, keyed] of this._keyedDescriptors) {
+      descriptors.set(serviceType, [
+        ...(descriptors.get(serviceType) ?? []),
+        ...Array.from(keyed.values()).flat(),
+      ]);
+    }
+
+    for (const [optionsType, builder] of this._optionsBuilders) {
+      const options = builder.build();
+      const monitorType = optionsMonitorOf(optionsType);
+
+      this.appendOptionsDescriptor(descriptors, optionsType, 'singleton', () => options);
+      this.appendOptionsDescriptor(
+        descriptors,
+        monitorType,
+        'singleton',
+        () => new OptionsMonitor(builder, options),
+      );
+      this.appendOptionsDescriptor(
+        descriptors,
+        optionsSnapshotOf(optionsType),
+        'scoped',
+        provider => Object.freeze({ value: provider.getService(monitorType).currentValue }),
+      );
+    }
+
+    return descriptors;
+  }
+
+  /**
+   * Appends the descriptor of a service created from configured options to a descriptor map
+   *
+   * @template T - The type of the service
+   * @param descriptors - The map of the descriptors registered for each service identifier
+   * @param serviceType - The service identifier
+   * @param lifetime - The lifetime of the service
+   * @param factory - The factory that creates the service
+   */
+  private appendOptionsDescriptor<T>(
+    descriptors: Map<ServiceIdentifier<unknown>, ServiceDescriptor<unknown>[]>,
+    serviceType: ServiceIdentifier<T>,
+    lifetime: ServiceLifetime,
+    factory: ServiceFactory<T>,
+  ): void {
+    descriptors.set(serviceType, [
+      ...(descriptors.get(serviceType) ?? []),
+      {
+        serviceType,
+        implementationType: Object as unknown as Constructor<unknown>,
+        lifetime,
+        factory,
+      },
+    ]);
+  }
+
+  /**
+   * Gets the configuration of an options object, creating it the first time the options are configured.
+   *
+   * @template T - The type of the options
+   * @param optionsType - The service identifier the options are injected with
+   * @returns The options builder for the options
+   */
+  private getOptionsBuilder<T extends object>(
+    optionsType: ServiceIdentifier<T>,
+  ): OptionsBuilder<T> {
+    let builder = this._optionsBuilders.get(optionsType);
+
+    if (!builder) {
+      builder = new OptionsBuilder(describeServiceIdentifier(optionsType));
+      this._optionsBuilders.set(optionsType, builder);
+    }
+
+    return builder as unknown as OptionsBuilder<T>;
   }
 
   /**
@@ -113,36 +926,207 @@ export class ServiceCollection implements IServiceCollection {
    * @param serviceType - The service identifier
    * @param implementationOrFactory - The implementation class or factory function
    * @param lifetime - The service lifetime
+   * @param dependencies - Optional service identifiers to inject into the constructor parameters of the implementation class
+   * @returns The service collection instance for method chaining
+   */
+  private addWithLifetime<T>(
+    serviceType: ServiceIdentifier<T>,
+    implementationOrFactory: ServiceFactory<T> | Constructor<T>,
+    lifetime: ServiceLifetime,
+    dependencies?: readonly ServiceIdentifier<unknown>[],
+  ): IServiceCollection {
+    this.addDescriptor(
+      this.createDescriptor(serviceType, implementationOrFactory, lifetime, dependencies),
+    );
+
+    return this;
+  }
+
+  /**
+   * Internal method to add a service descriptor for an asynchronous factory to the collection.
+   *
+   * @template T - The type of the service to register
+   * @param serviceType - The service identifier
+   * @param asyncFactory - The asynchronous factory function
+   * @param lifetime - The service lifetime
+   * @returns The service collection instance for method chaining
+   */
+  private addAsync<T>(
+    serviceType: ServiceIdentifier<T>,
+    asyncFactory: AsyncServiceFactory<T>,
+    lifetime: ServiceLifetime,
+  ): IServiceCollection {
+    this.addDescriptor({
+      serviceType,
+      implementationType: Object as unknown as Constructor<T>,
+      lifetime,
+      asyncFactory,
+    });
+
+    return this;
+  }
+
+  /**
+   * Internal method to add a keyed service descriptor to the collection.
+   *
+   * @template T - The type of the service to register
+   * @param serviceType - The service identifier
+   * @param serviceKey - The key that distinguishes this implementation
+   * @param implementationOrFactory - The implementation class or a factory function that receives the key
+   * @param lifetime - The service lifetime
+   * @returns The service collection instance for method chaining
+   */
+  private addKeyed<T>(
+    serviceType: ServiceIdentifier<T>,
+    serviceKey: ServiceKey,
+    implementationOrFactory: Constructor<T> | KeyedServiceFactory<T>,
+    lifetime: ServiceLifetime,
+  ): IServiceCollection {
+    const descriptor: ServiceDescriptor<T> = this.isConstructor(implementationOrFactory)
+      ? { serviceType, implementationType: implementationOrFactory as Constructor<T>, lifetime }
+      : {
+          serviceType,
+          implementationType: Object as unknown as Constructor<T>,
+          lifetime,
+          factory: provider =>
+            (implementationOrFactory as KeyedServiceFactory<T>)(provider, serviceKey),
+        };
+
+    descriptor.serviceKey = serviceKey;
+    this.addKeyedDescriptor(descriptor);
+
+    return this;
+  }
+
+  /**
+   * Internal method to add an open service descriptor for an identifier family to the collection.
+   *
+   * @template TToken - The type of the tokens the family's members are derived from
+   * @template T - The type of the service to register
+   * @param family - The identifier family
+   * @param openFactory - The factory function that creates the service for a member's token
+   * @param lifetime - The service lifetime
+   * @returns The service collection instance for method chaining
+   */
+  private addOpen<TToken, T>(
+    family: ServiceIdentifierFamily<TToken, T>,
+    openFactory: OpenServiceFactory<TToken, T>,
+    lifetime: ServiceLifetime,
+  ): IServiceCollection {
+    this.addDescriptor({
+      serviceType: family.serviceType,
+      implementationType: Object as unknown as Constructor<T>,
+      lifetime,
+      family,
+      openFactory,
+    });
+
+    return this;
+  }
+
+  /**
+   * Internal method to add a service descriptor to the collection if the service has not
+   * already been registered.
+   *
+   * @template T - The type of the service to register
+   * @param serviceType - The service identifier
+   * @param implementationOrFactory - The implementation class or factory function
+   * @param lifetime - The service lifetime
    * @returns The service collection instance for method chaining
    */
-  private add<T>(
+  private tryAdd<T>(
     serviceType: ServiceIdentifier<T>,
     implementationOrFactory: ServiceFactory<T> | Constructor<T>,
     lifetime: ServiceLifetime,
   ): IServiceCollection {
+    if (this.contains(serviceType) === false) {
+      this.addWithLifetime(serviceType, implementationOrFactory, lifetime);
+    }
+
+    return this;
+  }
+
+  /**
+   * Creates a service descriptor for an implementation class or factory function.
+   *
+   * @template T - The type of the service to register
+   * @param serviceType - The service identifier
+   * @param implementationOrFactory - The implementation class or factory function
+   * @param lifetime - The service lifetime
+   * @param dependencies - Optional service identifiers to inject into the constructor parameters of the implementation class
+   * @returns The service descriptor
+   */
+  private createDescriptor<T>(
+    serviceType: ServiceIdentifier<T>,
+    implementationOrFactory: ServiceFactory<T> | Constructor<T>,
+    lifetime: ServiceLifetime,
+    dependencies?: readonly ServiceIdentifier<unknown>[],
+  ): ServiceDescriptor<T> {
     if (
       typeof implementationOrFactory === 'function' &&
       this.isConstructor(implementationOrFactory) === false
     ) {
-      const descriptor: ServiceDescriptor<T> = {
+      return {
         serviceType,
         implementationType: Object as unknown as Constructor<T>,
         lifetime,
         factory: implementationOrFactory as ServiceFactory<T>,
       };
+    }
+
+    return {
+      serviceType,
+      implementationType: implementationOrFactory as Constructor<T>,
+      lifetime,
+      ...(dependencies && { dependencies }),
+    };
+  }
+
+  /**
+   * Appends a service descriptor to the descriptors registered for its service identifier.
+   *
+   * @param descriptor - The service descriptor to add
+   */
+  private addDescriptor(descriptor: ServiceDescriptor<unknown>): void {
+    const registered = this._descriptors.get(descriptor.serviceType);
 
-      this._descriptors.set(serviceType, descriptor);
+    if (registered) {
+      registered.push(descriptor);
     } else {
-      const descriptor: ServiceDescriptor<T> = {
-        serviceType,
-        implementationType: implementationOrFactory as Constructor<T>,
-        lifetime,
-      };
+      this._descriptors.set(descriptor.serviceType, [descriptor]);
+    }
+  }
+
+  /**
+   * Appends a keyed service descriptor to the descriptors registered for its service identifier and key.
+   *
+   * @param descriptor - The keyed service descriptor to add
+   */
+  private addKeyedDescriptor(descriptor: ServiceDescriptor<unknown>): void {
+    let keyed = this._keyedDescriptors.get(descriptor.serviceType);
 
-      this._descriptors.set(serviceType, descriptor);
+    if (!keyed) {
+      keyed = new Map();
+      this._keyedDescriptors.set(descriptor.serviceType, keyed);
     }
 
-    return this;
+    keyed.set(descriptor.serviceKey!, [...(keyed.get(descriptor.serviceKey!) ?? []), descriptor]);
+  }
+
+  /**
+   * Gets the descriptors registered for a service identifier, either without a key or with the given key.
+   *
+   * @param serviceType - The service identifier
+   * @param serviceKey - The key of the keyed registrations, or undefined for registrations without a key
+   * @returns The registered descriptors in registration order, or undefined if none have been registered
+   */
+  private getRegistered(
+    serviceType: ServiceIdentifier<unknown>,
+    serviceKey?: ServiceKey,
+  ): ServiceDescriptor<unknown>[] | undefined {
+    return serviceKey === undefined
+      ? this._descriptors.get(serviceType)
+      : this._keyedDescriptors.get(serviceType)?.get(serviceKey);
   }
 
   /**
@@ -0,0 +1,64 @@
+import type { ServiceDescriptor, ServiceIdentifier, ServiceKey } from './types.js';
+
+/**
+ * Gets a readable name for a service from its identifier description or implementation class
+ *
+ * @param descriptor - The service descriptor
+ * @returns The name of the service
+ * @internal
+ */
+export function describeService(descriptor: ServiceDescriptor<unknown>): string {
+  const { serviceType, implementationType, serviceKey } = descriptor;
+
+  if (!serviceType?.description && !isFactoryRegistration(descriptor) && implementationType.name) {
+    return implementationType.name;
+  }
+
+  return describeServiceIdentifier(serviceType, serviceKey);
+}
+
+/**
+ * Gets a readable name for a service identifier from its description, followed by the key of a keyed service
+ *
+ * @param serviceType - The service identifier
+ * @param serviceKey - The key of the keyed service, if any
+ * @returns The name of the service identifier
+ * @internal
+ */
+export function describeServiceIdentifier(
+  serviceType: ServiceIdentifier<unknown>,
+  serviceKey?: ServiceKey,
+): string {
+  const name = serviceType?.description || String(serviceType);
+
+  return serviceKey === undefined ? name : `${name}[${String(serviceKey)}]`;
+}
+
+/**
+ * Gets a readable name for a service that requests other services, preferring its implementation class
+ *
+ * @param descriptor - The descriptor of the requesting service
+ * @returns The name of the requesting class, or of the service when it is created by a factory
+ * @internal
+ */
+export function describeRequester(descriptor: ServiceDescriptor<unknown>): string {
+  return isFactoryRegistration(descriptor)
+    ? describeService(descriptor)
+    : descriptor.implementationType.name;
+}
+
+/**
+ * Checks whether a service is created by a factory rather than by its implementation class
+ *
+ * @param descriptor - The service descriptor
+ * @returns True if the service is registered with any kind of factory or as a placeholder, false otherwise
+ */
+function isFactoryRegistration(descriptor: ServiceDescriptor<unknown>): boolean {
+  return !!(
+    descriptor.factory ||
+    descriptor.asyncFactory ||
+    descriptor.openFactory ||
+    descriptor.decorator ||
+    descriptor.placeholder
+  );
+}
@@ -1,12 +1,57 @@
-import { DI_PARAM_TYPES } from './decorators.js';
+import {
+  getDescriptorInjections,
+  getPostConstructMethods,
+  getPropertyInjections,
+  isInjectable,
+} from './decorators.js';
+import {
+  AsyncResolutionRequiredError,
+  CircularDependencyError,
+  MissingInjectDecoratorError,
+  NotInjectableError,
+  ObjectDisposedError,
+  ScopedValueNotProvidedError,
+  ScopeValidationError,
+  ServiceActivationError,
+  ServiceNotRegisteredError,
+  ServiceResolutionError,
+} from './errors.js';
+import { ServiceCollection } from './serviceCollection.js';
+import { describeRequester, describeService, describeServiceIdentifier } from './serviceNames.js';
+import { ServiceProviderValidator } from './serviceProviderValidator.js';
+import { createServiceIdentifier } from './types.js';
 import type {
+  DisposableService,
+  IAsyncInitializable,
+  IServiceCollection,
   IServiceProvider,
   IServiceScope,
+  ParameterInjection,
+  ParameterInjectionOptions,
+  ScopeOptions,
   ServiceDescriptor,
   ServiceIdentifier,
+  ServiceKey,
+  ServiceProviderOptions,
+  ServiceResolutionFailure,
   Constructor,
 } from './types.js';
 
+/**
+ * How to call the constructor of a class created with runtime arguments
+ */
+type ActivationPlan = {
+  /**
+   * The injection for each constructor parameter, computed once per factory
+   */
+  injections: readonly ParameterInjection[];
+
+  /**
+   * The runtime arguments passed to the parameters without an injected service, in order
+   */
+  args: readonly unknown[];
+};
+
 /**
  * Represents a scope for scoped services.
  *
@@ -30,11 +75,36 @@ export class ServiceScope implements IServiceScope {
   }
 
   /**
-   * Disposes the scope and clears any scoped service instances
+   * Disposes the scope and every disposable service instance created within it
    */
   dispose(): void {
     this.serviceProvider.dispose();
   }
+
+  /**
+   * Disposes the scope when used with a `using` declaration
+   */
+  [Symbol.dispose](): void {
+    this.dispose();
+  }
+
+  /**
+   * Asynchronously disposes the scope and every disposable service instance created within it
+   *
+   * @returns A promise that resolves once every instance has been disposed
+   */
+  disposeAsync(): Promise<void> {
+    return this.serviceProvider.disposeAsync();
+  }
+
+  /**
+   * Asynchronously disposes the scope when used with an `await using` declaration
+   *
+   * @returns A promise that resolves once every instance has been disposed
+   */
+  [Symbol.asyncDispose](): Promise<void> {
+    return this.disposeAsync();
+  }
 }
 
 /**
@@ -47,44 +117,147 @@ export class ServiceScope implements IServiceScope {
  */
 export class ServiceProvider implements IServiceProvider {
   /**
-   * Map of service descriptors by service identifier
+   * Map of service descriptors by service identifier, in registration order
+   */
+  private readonly _descriptors: Map<ServiceIdentifier<unknown>, ServiceDescriptor<unknown>[]>;
+
+  /**
+   * Open service descriptors that satisfy every member of an identifier family, in registration order
+   */
+  private readonly _openDescriptors: ServiceDescriptor<unknown>[];
+
+  /**
+   * Map of the descriptors created from open registrations by member identifier, only populated on the root provider
+   */
+  private readonly _closedDescriptors: Map<ServiceIdentifier<unknown>, ServiceDescriptor<unknown>> =
+    new Map();
+
+  /**
+   * Map of singleton service instances by service descriptor, only populated on the root provider
+   */
+  private readonly _singletonInstances: Map<ServiceDescriptor<unknown>, unknown> = new Map();
+
+  /**
+   * Map of scoped service instances by service descriptor
+   */
+  private readonly _scopedInstances: Map<ServiceDescriptor<unknown>, unknown> = new Map();
+
+  /**
+   * Map of singleton or scoped service instances still being created asynchronously by service descriptor
+   */
+  private readonly _pendingInstances: Map<ServiceDescriptor<unknown>, Promise<unknown>> = new Map();
+
+  /**
+   * Disposable service instances created by this provider, in creation order
+   */
+  private readonly _disposables: DisposableService[] = [];
+
+  /**
+   * Descriptors of the services currently being created, in resolution order, shared with the root provider
+   */
+  private readonly _resolutionPath: ServiceDescriptor<unknown>[];
+
+  /**
+   * Descriptors of the services being created asynchronously that `getServiceAsync()` resolves
+   * dependencies of, only set on the view of the provider given to an asynchronous factory
+   */
+  private readonly _asyncResolutionPath: readonly ServiceDescriptor<unknown>[] = [];
+
+  /**
+   * Options that control how services are resolved
+   */
+  private readonly _options: ServiceProviderOptions;
+
+  /**
+   * Whether this is the root provider rather than the provider of a scope
+   */
+  private readonly _isRoot: boolean;
+
+  /**
+   * The root provider, which creates and owns every singleton service registered with its container
+   */
+  private readonly _root: ServiceProvider;
+
+  /**
+   * The root provider of the container this child container was created from, if any
    */
-  private readonly _descriptors: Map<ServiceIdentifier<unknown>, ServiceDescriptor<unknown>>;
+  private readonly _parentContainer?: ServiceProvider;
 
   /**
-   * Map of singleton service instances by service identifier
+   * Descriptors registered with an ancestor container, whose singletons the ancestor owns, only
+   * populated on the root provider of a child container
    */
-  private readonly _singletonInstances: Map<ServiceIdentifier<unknown>, unknown> = new Map();
+  private readonly _inheritedDescriptors: Set<ServiceDescriptor<unknown>> = new Set();
 
   /**
-   * Map of scoped service instances by service identifier
+   * Whether this provider has been disposed
    */
-  private readonly _scopedInstances: Map<ServiceIdentifier<unknown>, unknown> = new Map();
+  private _disposed = false;
 
   /**
    * Creates a new service provider
    *
-   * @param descriptors - Map of service descriptors
-   * @param parent - Optional parent service provider to inherit singleton instances from
+   * @param descriptors - Map of service descriptors, or of every descriptor registered for an identifier
+   * @param options - Optional settings that control how services are resolved
+   * @param parent - Optional parent service provider whose root creates and owns singleton services
+   * @param parentContainer - Optional root provider of the container a child container inherits its
+   * registrations and their singletons from
+   * @throws ContainerValidationError if validation on build is enabled and any service cannot be constructed
    */
   constructor(
-    descriptors: Map<ServiceIdentifier<unknown>, ServiceDescriptor<unknown>>,
+    descriptors: Map<
+      ServiceIdentifier<unknown>,
+      ServiceDescriptor<unknown> | ServiceDescriptor<unknown>[]
+    >,
+    options: ServiceProviderOptions = {},
     parent?: ServiceProvider,
+    parentContainer?: ServiceProvider,
   ) {
-    this._descriptors = descriptors;
+    this._options = options;
+    this._isRoot = parent === undefined;
+    this._root = parent?._root ?? this;
+    this._parentContainer = parentContainer;
+    this._resolutionPath = parent?._resolutionPath ?? parentContainer?._resolutionPath ?? [];
+    this._descriptors = new Map();
+    this._openDescriptors = [];
+
+    if (parentContainer) {
+      for (const [serviceType, registered] of parentContainer._descriptors) {
+        this._descriptors.set(serviceType, [...registered]);
+        registered.forEach(descriptor => this._inheritedDescriptors.add(descriptor));
+      }
 
-    if (parent) {
-      parent._singletonInstances.forEach((value, key) => {
-        this._singletonInstances.set(key, value);
-      });
+      this._openDescriptors.push(...parentContainer._openDescriptors);
+      parentContainer._openDescriptors.forEach(descriptor =>
+        this._inheritedDescriptors.add(descriptor),
+      );
     }
 
-    // Pre-resolve singleton services
-    for (const descriptor of descriptors.values()) {
-      if (descriptor.lifetime === 'singleton') {
-        this.resolveService(descriptor);
+    for (const [serviceType, registered] of descriptors) {
+      const all = Array.isArray(registered) ? registered : [registered];
+      const closed = all.filter(descriptor => descriptor.family === undefined);
+
+      this._openDescriptors.push(...all.filter(descriptor => descriptor.family !== undefined));
+
+      if (closed.length > 0) {
+        this._descriptors.set(serviceType, [
+          ...(this._descriptors.get(serviceType) ?? []),
+          ...closed,
+        ]);
       }
     }
+
+    if (this._isRoot && options.validateOnBuild) {
+      new ServiceProviderValidator(
+        this._descriptors,
+        this._openDescriptors,
+        options.strict,
+      ).validate();
+    }
+
+    if (this._isRoot) {
+      this.resolveEagerSingletons();
+    }
   }
 
   /**
@@ -93,7 +266,10 @@ export class ServiceProvider implements IServiceProvider {
    * @template T - The type of the service to resolve
    * @param serviceType - The service identifier of the service to resolve
    * @returns The resolved service instance
-   * @throws Error if the service is not registered
+   * @throws ServiceNotRegisteredError if the service or one of its dependencies is not registered
+   * @throws ServiceActivationError if the service or one of its dependencies fails to be created
+   * @throws CircularDependencyError if the service depends on itself
+   * @throws ObjectDisposedError if the provider has been disposed
    *
    * @example
    * ```typescript
@@ -101,95 +277,1478 @@ export class ServiceProvider implements IServiceProvider {
    * ```
    */
   getService<T>(serviceType: ServiceIdentifier<T>): T {
-    const descriptor = this._descriptors.get(serviceType);
+    this.throwIfDisposed();
 
-    if (!descriptor) {
-      throw new Error(`Service of type ${serviceType.toString()} is not registered.`);
-    }
+    return this.resolveDependency(serviceType);
+  }
+
+  /**
+   * Gets a keyed service instance by its service identifier and key
+   *
+   * @template T - The type of the service to resolve
+   * @param serviceType - The service identifier of the service to resolve
+   * @param serviceKey - The key the service was registered with
+   * @returns The resolved service instance
+   * @throws ServiceNotRegisteredError if no service is registered with the key, or one of its dependencies is not registered
+   * @throws ServiceActivationError if the service or one of its dependencies fails to be created
+   * @throws CircularDependencyError if the service depends on itself
+   * @throws ObjectDisposedError if the provider has been disposed
+   *
+   * @example
+   * ```typescript
+   * const storage = serviceProvider.getKeyedService(storageIdentifier, 's3');
+   * ```
+   */
+  getKeyedService<T>(serviceType: ServiceIdentifier<T>, serviceKey: ServiceKey): T {
+    this.throwIfDisposed();
+
+    return this.resolveDependency(serviceType, undefined, serviceKey);
+  }
+
+  /**
+   * Gets a service instance by its service identifier, awaiting any asynchronous factories and
+   * `initAsync()` hooks in its dependency graph
+   *
+   * Concurrent requests for the same singleton or scoped service share a single instance.
+   *
+   * @template T - The type of the service to resolve
+   * @param serviceType - The service identifier of the service to resolve
+   * @returns A promise that resolves to the initialized service instance
+   * @throws ServiceNotRegisteredError if the service or one of its dependencies is not registered
+   * @throws ServiceActivationError if the service or one of its dependencies fails to be created or initialized
+   * @throws CircularDependencyError if the service depends on itself
+   * @throws ObjectDisposedError if the provider has been disposed
+   *
+   * @example
+   * ```typescript
+   * const database = await serviceProvider.getServiceAsync(databaseIdentifier);
+   * ```
+   */
+  async getServiceAsync<T>(serviceType: ServiceIdentifier<T>): Promise<T> {
+    this.throwIfDisposed();
+
+    return this.resolveDependencyAsync(serviceType, this._asyncResolutionPath);
+  }
+
+  /**
+   * Gets a service instance by its service identifier if the service is registered
+   *
+   * @template T - The type of the service to resolve
+   * @param serviceType - The service identifier of the service to resolve
+   * @returns The resolved service instance, or undefined if the service is not registered
+   * @throws ServiceNotRegisteredError if one of the service's dependencies is not registered
+   * @throws ServiceActivationError if the service or one of its dependencies fails to be created
+   * @throws ObjectDisposedError if the provider has been disposed
+   *
+   * @example
+   * ```typescript
+   * const telemetry = serviceProvider.tryGetService(telemetryIdentifier);
+   * telemetry?.trackEvent('started');
+   * ```
+   */
+  tryGetService<T>(serviceType: ServiceIdentifier<T>): T | undefined {
+    this.throwIfDisposed();
+
+    return this.tryResolveDependency(serviceType);
+  }
+
+  /**
+   * Gets every registered implementation of a service, in registration order
+   *
+   * Each implementation is resolved according to its own registered lifetime.
+   *
+   * @template T - The type of the service to resolve
+   * @param serviceType - The service identifier of the services to resolve
+   * @returns The resolved service instances, or an empty array if none are registered
+   * @throws ServiceActivationError if one of the services or their dependencies fails to be created
+   * @throws ObjectDisposedError if the provider has been disposed
+   *
+   * @example
+   * ```typescript
+   * const handlers = serviceProvider.getServices(handlerIdentifier);
+   * ```
+   */
+  getServices<T>(serviceType: ServiceIdentifier<T>): T[] {
+    this.throwIfDisposed();
+
+    return this.resolveAll(serviceType);
+  }
+
+  /**
+   * Gets every registered implementation of a service, one at a time in registration order,
+   * awaiting any asynchronous factories and `initAsync()` hooks in their dependency graphs
+   *
+   * @template T - The type of the services to resolve
+   * @param serviceType - The service identifier of the services to resolve
+   * @returns A promise that resolves to the initialized service instances, or an empty array if none are registered
+   * @throws ServiceActivationError if one of the services or their dependencies fails to be created or initialized
+   * @throws ObjectDisposedError if the provider has been disposed
+   *
+   * @example
+   * ```typescript
+   * const migrations = await serviceProvider.getServicesAsync(migrationIdentifier);
+   * ```
+   */
+  async getServicesAsync<T>(serviceType: ServiceIdentifier<T>): Promise<T[]> {
+    this.throwIfDisposed();
 
-    return this.resolveService(descriptor as ServiceDescriptor<T>);
+    return this.resolveAllAsync(serviceType, this._asyncResolutionPath);
   }
 
   /**
    * Creates a new scope for scoped services
    *
+   * @param options - Optional settings, such as the values to provide to the scope
    * @returns A new service scope
+   * @throws ServiceNotRegisteredError if a value is provided for a service that is not registered
+   * @throws Error if a value is provided for a service that is not registered as scoped
    *
    * @example
    * ```typescript
-   * const scope = serviceProvider.createScope();
+   * const scope = serviceProvider.createScope({ values: [[requestIdentifier, request]] });
    * const scopedService = scope.serviceProvider.getService(serviceIdentifier);
    * // ... use scoped service
    * scope.dispose();
    * ```
    */
-  createScope(): IServiceScope {
-    const scopedProvider = new ServiceProvider(this._descriptors, this);
+  createScope(options?: ScopeOptions): IServiceScope {
+    this.throwIfDisposed();
+
+    const scopedProvider = new ServiceProvider(this._descriptors, this._options, this);
+
+    for (const [serviceType, value] of options?.values ?? []) {
+      scopedProvider.provide(serviceType, value);
+    }
+
     return new ServiceScope(scopedProvider);
   }
 
   /**
-   * Disposes the service provider and clears any scoped service instances
+   * Creates an instance of a class that is not necessarily registered, filling the constructor
+   * parameters without an injected service from the given arguments and the others from the container
+   *
+   * The instance is owned by this provider like a transient service and disposed with it.
+   *
+   * @template T - The type of the instance to create
+   * @param ctor - The class to create an instance of
+   * @param args - The arguments for the constructor parameters without an injected service, in order
+   * @returns A new instance of the class
+   * @throws MissingInjectDecoratorError if fewer arguments are given than parameters without an injected service
+   * @throws ServiceNotRegisteredError if an injected service is not registered
+   * @throws ServiceActivationError if the constructor or one of its dependencies fails to be created
+   * @throws ObjectDisposedError if the provider has been disposed
+   *
+   * @example
+   * ```typescript
+   * class ReportGenerator {
+   *   constructor(
+   *     private reportId: string,
+   *     @inject(databaseIdentifier) private database: IDatabase,
+   *   ) {}
+   * }
+   *
+   * const generator = serviceProvider.createInstance(ReportGenerator, 'quarterly');
+   * ```
    */
-  dispose(): void {
-    this._scopedInstances.clear();
+  createInstance<T>(ctor: Constructor<T>, ...args: unknown[]): T {
+    return this.createFactory(ctor)(...args);
   }
 
   /**
-   * Resolves a service instance from its descriptor
+   * Creates a function that creates instances of a class like `createInstance()`, inspecting its
+   * constructor parameters only once for fast repeated use
    *
-   * @template T - The type of the service to resolve
-   * @param descriptor - The service descriptor
-   * @returns The resolved service instance
-   * @throws Error if the service lifetime is unknown
+   * @template T - The type of the instances to create
+   * @template TArgs - The types of the arguments for the constructor parameters without an injected service
+   * @param ctor - The class to create instances of
+   * @returns A function that creates a new instance of the class from the given arguments
+   * @throws ObjectDisposedError if the provider has been disposed
+   *
+   * @example
+   * ```typescript
+   * const createGenerator = serviceProvider.createFactory<ReportGenerator, [string]>(ReportGenerator);
+   * const generators = reportIds.map(reportId => createGenerator(reportId));
+   * ```
    */
-  private resolveService<T>(descriptor: ServiceDescriptor<T>): T {
-    const { serviceType, implementationType, lifetime, factory } = descriptor;
+  createFactory<T, TArgs extends unknown[] = unknown[]>(
+    ctor: Constructor<T>,
+  ): (...args: TArgs) => T {
+    this.throwIfDisposed();
 
-    switch (lifetime) {
-      case 'singleton': {
-        if (this._singletonInstances.has(serviceType)) {
-          return this._singletonInstances.get(serviceType) as T;
+    const descriptor: ServiceDescriptor<T> = {
+      serviceType: createServiceIdentifier(ctor.name),
+      implementationType: ctor,
+      lifetime: 'transient',
+    };
+    const injections = getDescriptorInjections(descriptor, true);
+
+    return (...args: TArgs) => {
+      this.throwIfDisposed();
+
+      return this.activate(descriptor, undefined, undefined, { injections, args });
+    };
+  }
+
+  /**
+   * Provides the instance of a scoped service for this provider's scope
+   *
+   * The value replaces the instance the scope would otherwise create for the last registration of
+   * the service. Provided values are owned by the caller and are not disposed with the scope.
+   *
+   * @template T - The type of the service
+   * @param serviceType - The service identifier of a scoped service or scoped placeholder
+   * @param value - The instance to resolve the service to within the scope
+   * @throws ServiceNotRegisteredError if the service is not registered
+   * @throws Error if the service is not registered as scoped
+   * @throws ObjectDisposedError if the provider has been disposed
+   *
+   * @example
+   * ```typescript
+   * const scope = serviceProvider.createScope();
+   * scope.serviceProvider.provide(requestIdentifier, request);
+   * ```
+   */
+  provide<T>(serviceType: ServiceIdentifier<T>, value: T): void {
+    this.throwIfDisposed();
+
+    const descriptor = this.getDescriptors(serviceType).at(-1);
+
+    if (!descriptor) {
+      throw this.createNotRegisteredError(serviceType, []);
+    }
+
+    if (descriptor.lifetime !== 'scoped') {
+      throw new Error(
+        `Cannot provide a value for service '${describeService(descriptor)}' because it is registered as ${descriptor.lifetime}, not scoped.`,
+      );
+    }
+
+    this._scopedInstances.set(descriptor, value);
+  }
+
+  /**
+   * Creates a child container that inherits the registrations of this provider's container and
+   * can add registrations of its own
+   *
+   * A registration added to the child overrides the ones inherited for the same service
+   * identifier, as a later registration would. Singletons inherited from the parent are shared
+   * with it, while singletons registered with the child are created, owned and disposed by the child.
+   *
+   * @param configure - Registers the services of the child container
+   * @returns The root provider of the child container
+   * @throws ContainerValidationError if validation on build is enabled and any service cannot be constructed
+   * @throws ObjectDisposedError if the provider has been disposed
+   *
+   * @example
+   * ```typescript
+   * const tenantProvider = serviceProvider.createChildContainer(services => {
+   *   services.addSingleton(connectionStringIdentifier, () => tenant.connectionString);
+   * });
+   * // ... use tenant services
+   * tenantProvider.dispose();
+   * ```
+   */
+  createChildContainer(configure: (services: IServiceCollection) => void): IServiceProvider {
+    this.throwIfDisposed();
+
+    const services = new ServiceCollection();
+    configure(services);
+
+    return new ServiceProvider(services.getDescriptorMap(), this._options, undefined, this._root);
+  }
+
+  /**
+   * Disposes the service provider and every disposable service instance it created.
+   *
+   * Instances are disposed in the reverse order of their creation. Once disposed, the
+   * provider can no longer resolve services. Instances that only support asynchronous disposal
+   * stay tracked, so that a later call to `disposeAsync()` disposes them.
+   *
+   * @throws AggregateError if one or more instances failed to dispose, including instances
+   * that only support asynchronous disposal
+   */
+  dispose(): void {
+    if (this._disposed) {
+      return;
+    }
+
+    this._disposed = true;
+    this._scopedInstances.clear();
+
+    const errors: unknown[] = [];
+
+    for (const disposable of this._disposables.splice(0).reverse()) {
+      try {
+        this.disposeInstance(disposable);
+      } catch (error) {
+        errors.push(error);
+
+        if (!this.isSyncDisposable(disposable)) {
+          this._disposables.unshift(disposable);
         }
-        const singletonInstance = factory ? factory(this) : this.createInstance(implementationType);
-        this._singletonInstances.set(serviceType, singletonInstance);
-        return singletonInstance;
       }
-      case 'scoped': {
-        if (this._scopedInstances.has(serviceType)) {
-          return this._scopedInstances.get(serviceType) as T;
-        }
-        const scopedInstance = factory ? factory(this) : this.createInstance(implementationType);
-        this._scopedInstances.set(serviceType, scopedInstance);
-        return scopedInstance;
+    }
+
+    this.throwIfDisposalFailed(errors);
+  }
+
+  /**
+   * Disposes the service provider when used with a `using` declaration
+   */
+  [Symbol.dispose](): void {
+    this.dispose();
+  }
+
+  /**
+   * Asynchronously disposes the service provider and every disposable service instance it created.
+   *
+   * Instances are disposed one at a time in the reverse order of their creation. Asynchronous
+   * disposal is preferred and synchronous disposal is used as a fallback. After `dispose()`, it
+   * disposes the instances that only support asynchronous disposal.
+   *
+   * @returns A promise that resolves once every instance has been disposed
+   * @throws AggregateError if one or more instances failed to dispose
+   */
+  async disposeAsync(): Promise<void> {
+    if (this._disposed && this._disposables.length === 0) {
+      return;
+    }
+
+    this._disposed = true;
+    this._scopedInstances.clear();
+
+    const errors: unknown[] = [];
+
+    for (const disposable of this._disposables.splice(0).reverse()) {
+      try {
+        await this.disposeInstanceAsync(disposable);
+      } catch (error) {
+        errors.push(error);
       }
-      case 'transient':
-        return factory ? factory(this) : this.createInstance(implementationType);
-      default:
-        throw new Error(`Unknown service lifetime: ${lifetime}`);
     }
+
+    this.throwIfDisposalFailed(errors);
   }
 
   /**
-   * Creates an instance of a service class and resolves its dependencies
+   * Asynchronously disposes the service provider when used with an `await using` declaration
    *
-   * @template T - The type of the service to create
-   * @param ctor - The constructor of the service class
-   * @returns A new instance of the service class with its dependencies resolved
+   * @returns A promise that resolves once every instance has been disposed
    */
-  private createInstance<T>(ctor: Constructor<T>): T {
-    const paramTypes = Reflect.getMetadata('design:paramtypes', ctor) ?? [];
+  [Symbol.asyncDispose](): Promise<void> {
+    return this.disposeAsync();
+  }
 
-    const params = paramTypes.map((_: unknown, index: number) => {
-      const serviceType = Reflect.getMetadata(
-        DI_PARAM_TYPES,
-        ctor,
-        index.toString(),
-      ) as ServiceIdentifier<unknown>;
+  /**
+   * Gets the descriptors registered for a service identifier, either without a key or with the given key
+   *
+   * A member of an identifier family with no registrations of its own falls back to the last open
+   * registration for the family.
+   *
+   * @param serviceType - The service identifier
+   * @param serviceKey - The key of the keyed services, or undefined for services registered without a key
+   * @returns The matching descriptors, in registration order
+   */
+  private getDescriptors(
+    serviceType: ServiceIdentifier<unknown>,
+    serviceKey?: ServiceKey,
+  ): ServiceDescriptor<unknown>[] {
+    const registered = (this._descriptors.get(serviceType) ?? []).filter(
+      descriptor => descriptor.serviceKey === serviceKey,
+    );
 
-      return this.getService(serviceType);
-    });
+    if (registered.length > 0 || serviceKey !== undefined) {
+      return registered;
+    }
 
-    return new ctor(...params);
+    const closed = this._root.closeOpenDescriptor(serviceType);
+
+    return closed ? [closed] : [];
+  }
+
+  /**
+   * Gets the descriptor created from the open registration that satisfies a member identifier,
+   * creating it the first time the member is requested so that its instances are cached like any
+   * other registration
+   *
+   * @param serviceType - The member identifier
+   * @returns The descriptor for the member, or undefined if no open registration satisfies it
+   */
+  private closeOpenDescriptor(
+    serviceType: ServiceIdentifier<unknown>,
+  ): ServiceDescriptor<unknown> | undefined {
+    let descriptor = this._closedDescriptors.get(serviceType);
+
+    if (descriptor) {
+      return descriptor;
+    }
+
+    const open = [...this._openDescriptors]
+      .reverse()
+      .find(candidate => candidate.family!.hasMember(serviceType));
+
+    if (!open) {
+      return undefined;
+    }
+
+    if (this._inheritedDescriptors.has(open)) {
+      descriptor = this._parentContainer!.closeOpenDescriptor(serviceType)!;
+      this._inheritedDescriptors.add(descriptor);
+      this._closedDescriptors.set(serviceType, descriptor);
+
+      return descriptor;
+    }
+
+    const token = open.family!.getToken(serviceType);
+
+    descriptor = {
+      serviceType,
+      implementationType: open.implementationType,
+      lifetime: open.lifetime,
+      factory: provider => open.openFactory!(provider, token),
+    };
+
+    this._closedDescriptors.set(serviceType, descriptor);
+
+    return descriptor;
+  }
+
+  /**
+   * Creates the singleton services that should be warmed up when the provider is built
+   *
+   * Singletons that require asynchronous resolution cannot be created here and are skipped.
+   */
+  private resolveEagerSingletons(): void {
+    for (const registered of this._descriptors.values()) {
+      for (const descriptor of registered) {
+        if (
+          descriptor.lifetime === 'singleton' &&
+          (this._options.eagerSingletons || descriptor.eager) &&
+          this.requiresAsyncResolution(descriptor) === false
+        ) {
+          this.resolveService(descriptor);
+        }
+      }
+    }
+  }
+
+  /**
+   * Resolves a service requested by the service currently being created, if any
+   *
+   * @template T - The type of the service to resolve
+   * @param serviceType - The service identifier of the service to resolve
+   * @param parameterIndex - The index of the constructor parameter requesting the service, if any
+   * @param serviceKey - The key of the keyed service to resolve, if any
+   * @returns The resolved service instance
+   * @throws ServiceNotRegisteredError if the service is not registered
+   */
+  private resolveDependency<T>(
+    serviceType: ServiceIdentifier<T>,
+    parameterIndex?: number,
+    serviceKey?: ServiceKey,
+  ): T {
+    const descriptor = this.getDescriptors(serviceType, serviceKey).at(-1);
+
+    if (!descriptor) {
+      throw this.createNotRegisteredError(
+        serviceType,
+        this._resolutionPath,
+        parameterIndex,
+        serviceKey,
+      );
+    }
+
+    return this.resolveService(descriptor as ServiceDescriptor<T>, parameterIndex);
+  }
+
+  /**
+   * Resolves a service requested by the service currently being created if the service is registered
+   *
+   * @template T - The type of the service to resolve
+   * @param serviceType - The service identifier of the service to resolve
+   * @param parameterIndex - The index of the constructor parameter requesting the service, if any
+   * @param serviceKey - The key of the keyed service to resolve, if any
+   * @returns The resolved service instance, or undefined if the service is not registered
+   */
+  private tryResolveDependency<T>(
+    serviceType: ServiceIdentifier<T>,
+    parameterIndex?: number,
+    serviceKey?: ServiceKey,
+  ): T | undefined {
+    const descriptor = this.getDescriptors(serviceType, serviceKey).at(-1);
+
+    if (!descriptor) {
+      return undefined;
+    }
+
+    return this.resolveService(descriptor as ServiceDescriptor<T>, parameterIndex);
+  }
+
+  /**
+   * Resolves every registered implementation of a service, in registration order
+   *
+   * @template T - The type of the services to resolve
+   * @param serviceType - The service identifier of the services to resolve
+   * @param parameterIndex - The index of the constructor parameter requesting the services, if any
+   * @param serviceKey - The key of the keyed services to resolve, if any
+   * @returns The resolved service instances
+   */
+  private resolveAll<T>(
+    serviceType: ServiceIdentifier<T>,
+    parameterIndex?: number,
+    serviceKey?: ServiceKey,
+  ): T[] {
+    const descriptors = this.getDescriptors(serviceType, serviceKey);
+
+    return descriptors.map(descriptor =>
+      this.resolveService(descriptor as ServiceDescriptor<T>, parameterIndex),
+    );
+  }
+
+  /**
+   * Resolves a service instance from its descriptor
+   *
+   * @template T - The type of the service to resolve
+   * @param descriptor - The service descriptor
+   * @param parameterIndex - The index of the constructor parameter requesting the service, if any
+   * @returns The resolved service instance
+   * @throws ScopeValidationError if scope validation is enabled and a scoped service would outlive its scope
+   * @throws AsyncResolutionRequiredError if a singleton or scoped service is still being created asynchronously
+   * @throws ObjectDisposedError if the provider that owns a singleton service has been disposed
+   * @throws Error if the service lifetime is unknown
+   */
+  private resolveService<T>(descriptor: ServiceDescriptor<T>, parameterIndex?: number): T {
+    const { lifetime } = descriptor;
+
+    switch (lifetime) {
+      case 'singleton': {
+        if (this._isRoot === false) {
+          return this._root.resolveService(descriptor, parameterIndex);
+        }
+        if (this._inheritedDescriptors.has(descriptor)) {
+          return this._parentContainer!.resolveService(descriptor, parameterIndex);
+        }
+        this.throwIfDisposed();
+        this.throwIfPending(descriptor);
+        if (this._singletonInstances.has(descriptor)) {
+          return this._singletonInstances.get(descriptor) as T;
+        }
+        const singletonInstance = this.activate(
+          descriptor,
+          parameterIndex,
+          this._singletonInstances,
+        );
+        this._singletonInstances.set(descriptor, singletonInstance);
+        return singletonInstance;
+      }
+      case 'scoped': {
+        if (this._options.validateScopes) {
+          this.validateScope(descriptor, this._resolutionPath);
+        }
+        this.throwIfPending(descriptor);
+        if (this._scopedInstances.has(descriptor)) {
+          return this._scopedInstances.get(descriptor) as T;
+        }
+        const scopedInstance = this.activate(descriptor, parameterIndex, this._scopedInstances);
+        this._scopedInstances.set(descriptor, scopedInstance);
+        return scopedInstance;
+      }
+      case 'transient':
+        return this.activate(descriptor, parameterIndex);
+      default:
+        throw new Error(`Unknown service lifetime: ${lifetime}`);
+    }
+  }
+
+  /**
+   * Throws if a singleton or scoped service is still being created asynchronously, since creating
+   * it synchronously as well would leave two instances of it and its cached instance may not have
+   * been initialized yet
+   *
+   * A service further up the resolution path is not refused, so that services it depends on
+   * through properties receive its cached instance as they would during synchronous resolution.
+   *
+   * @param descriptor - The descriptor of the service being resolved
+   * @throws AsyncResolutionRequiredError if the service is still being created asynchronously
+   */
+  private throwIfPending(descriptor: ServiceDescriptor<unknown>): void {
+    if (this._pendingInstances.has(descriptor) && !this._resolutionPath.includes(descriptor)) {
+      const path = [...this._resolutionPath, descriptor].map(describeService);
+      throw new AsyncResolutionRequiredError(describeService(descriptor), path, true);
+    }
+  }
+
+  /**
+   * Ensures a scoped service is neither resolved from the root provider nor captured by a singleton
+   *
+   * @param descriptor - The descriptor of the scoped service being resolved
+   * @param resolutionPath - The descriptors of the services being created that led to the scoped service
+   * @throws ScopeValidationError if the scoped service would outlive its scope
+   */
+  private validateScope(
+    descriptor: ServiceDescriptor<unknown>,
+    resolutionPath: readonly ServiceDescriptor<unknown>[],
+  ): void {
+    const path = [...resolutionPath, descriptor].map(describeService);
+    const captorIndex = resolutionPath.findIndex(pending => pending.lifetime === 'singleton');
+
+    if (captorIndex !== -1) {
+      throw new ScopeValidationError(path, captorIndex);
+    }
+
+    if (this._isRoot) {
+      throw new ScopeValidationError(path);
+    }
+  }
+
+  /**
+   * Creates a service instance from its descriptor and tracks it for disposal when it is disposable
+   *
+   * A service class is cached in the given instances before its properties are injected, so that
+   * collaborators injected into its properties can depend on it in turn.
+   *
+   * @template T - The type of the service to create
+   * @param descriptor - The service descriptor
+   * @param parameterIndex - The index of the constructor parameter requesting the service, if any
+   * @param instances - The cache of singleton or scoped service instances the service belongs to, if any
+   * @param plan - How to call the constructor of a class created with runtime arguments, if any
+   * @returns The newly created service instance
+   * @throws CircularDependencyError if the service is already being created further up the resolution path
+   * @throws AsyncResolutionRequiredError if the service must be resolved asynchronously, including
+   * when a `@postConstruct()` method returns a promise
+   * @throws ServiceActivationError if the constructor, factory or a `@postConstruct()` method throws
+   */
+  private activate<T>(
+    descriptor: ServiceDescriptor<T>,
+    parameterIndex?: number,
+    instances?: Map<ServiceDescriptor<unknown>, unknown>,
+    plan?: ActivationPlan,
+  ): T {
+    const { factory, decorator, decoratedType } = descriptor;
+
+    this.throwIfCircular(descriptor, this._resolutionPath);
+
+    if (descriptor.placeholder) {
+      const path = [...this._resolutionPath, descriptor].map(describeService);
+      throw new ScopedValueNotProvidedError(describeService(descriptor), path);
+    }
+
+    if (this.requiresAsyncResolution(descriptor)) {
+      const path = [...this._resolutionPath, descriptor].map(describeService);
+      throw new AsyncResolutionRequiredError(describeService(descriptor), path);
+    }
+
+    this._resolutionPath.push(descriptor);
+
+    try {
+      let instance: T;
+
+      if (decorator) {
+        instance = decorator(this.resolveDependency(decoratedType!), this);
+      } else if (factory) {
+        instance = factory(this);
+      } else {
+        instance = this.instantiate(descriptor, plan);
+        instances?.set(descriptor, instance);
+        this.injectProperties(instance, descriptor.implementationType);
+        this.throwIfPostConstructAsync(
+          descriptor,
+          this.invokePostConstruct(instance, descriptor.implementationType),
+        );
+      }
+
+      this.trackDisposable(instance);
+
+      return instance;
+    } catch (error) {
+      instances?.delete(descriptor);
+      throw this.toActivationError(error, descriptor, this._resolutionPath, parameterIndex);
+    } finally {
+      this._resolutionPath.pop();
+    }
+  }
+
+  /**
+   * Resolves a service requested by the service currently being created asynchronously, if any
+   *
+   * @template T - The type of the service to resolve
+   * @param serviceType - The service identifier of the service to resolve
+   * @param resolutionPath - The descriptors of the services being created that requested the service
+   * @param parameterIndex - The index of the constructor parameter requesting the service, if any
+   * @param serviceKey - The key of the keyed service to resolve, if any
+   * @returns A promise that resolves to the service instance
+   * @throws ServiceNotRegisteredError if the service is not registered
+   */
+  private async resolveDependencyAsync<T>(
+    serviceType: ServiceIdentifier<T>,
+    resolutionPath: readonly ServiceDescriptor<unknown>[],
+    parameterIndex?: number,
+    serviceKey?: ServiceKey,
+  ): Promise<T> {
+    const descriptor = this.getDescriptors(serviceType, serviceKey).at(-1);
+
+    if (!descriptor) {
+      throw this.createNotRegisteredError(serviceType, resolutionPath, parameterIndex, serviceKey);
+    }
+
+    return this.resolveServiceAsync(
+      descriptor as ServiceDescriptor<T>,
+      resolutionPath,
+      parameterIndex,
+    );
+  }
+
+  /**
+   * Resolves a service requested by the service currently being created asynchronously if the
+   * service is registered
+   *
+   * @template T - The type of the service to resolve
+   * @param serviceType - The service identifier of the service to resolve
+   * @param resolutionPath - The descriptors of the services being created that requested the service
+   * @param parameterIndex - The index of the constructor parameter requesting the service, if any
+   * @param serviceKey - The key of the keyed service to resolve, if any
+   * @returns A promise that resolves to the service instance, or undefined if the service is not registered
+   */
+  private async tryResolveDependencyAsync<T>(
+    serviceType: ServiceIdentifier<T>,
+    resolutionPath: readonly ServiceDescriptor<unknown>[],
+    parameterIndex?: number,
+    serviceKey?: ServiceKey,
+  ): Promise<T | undefined> {
+    const descriptor = this.getDescriptors(serviceType, serviceKey).at(-1);
+
+    if (!descriptor) {
+      return undefined;
+    }
+
+    return this.resolveServiceAsync(
+      descriptor as ServiceDescriptor<T>,
+      resolutionPath,
+      parameterIndex,
+    );
+  }
+
+  /**
+   * Resolves every registered implementation of a service asynchronously, one at a time in
+   * registration order
+   *
+   * @template T - The type of the services to resolve
+   * @param serviceType - The service identifier of the services to resolve
+   * @param resolutionPath - The descriptors of the services being created that requested the services
+   * @param parameterIndex - The index of the constructor parameter requesting the services, if any
+   * @param serviceKey - The key of the keyed services to resolve, if any
+   * @returns A promise that resolves to the service instances
+   */
+  private async resolveAllAsync<T>(
+    serviceType: ServiceIdentifier<T>,
+    resolutionPath: readonly ServiceDescriptor<unknown>[],
+    parameterIndex?: number,
+    serviceKey?: ServiceKey,
+  ): Promise<T[]> {
+    const instances: T[] = [];
+
+    for (const descriptor of this.getDescriptors(serviceType, serviceKey)) {
+      instances.push(
+        await this.resolveServiceAsync(
+          descriptor as ServiceDescriptor<T>,
+          resolutionPath,
+          parameterIndex,
+        ),
+      );
+    }
+
+    return instances;
+  }
+
+  /**
+   * Resolves a service instance from its descriptor asynchronously
+   *
+   * @template T - The type of the service to resolve
+   * @param descriptor - The service descriptor
+   * @param resolutionPath - The descriptors of the services being created that requested the service
+   * @param parameterIndex - The index of the constructor parameter requesting the service, if any
+   * @returns A promise that resolves to the service instance
+   * @throws ScopeValidationError if scope validation is enabled and a scoped service would outlive its scope
+   * @throws ObjectDisposedError if the provider that owns a singleton service has been disposed
+   * @throws Error if the service lifetime is unknown
+   */
+  private async resolveServiceAsync<T>(
+    descriptor: ServiceDescriptor<T>,
+    resolutionPath: readonly ServiceDescriptor<unknown>[],
+    parameterIndex?: number,
+  ): Promise<T> {
+    const { lifetime } = descriptor;
+
+    switch (lifetime) {
+      case 'singleton':
+        if (this._isRoot === false) {
+          return this._root.resolveServiceAsync(descriptor, resolutionPath, parameterIndex);
+        }
+        if (this._inheritedDescriptors.has(descriptor)) {
+          return this._parentContainer!.resolveServiceAsync(
+            descriptor,
+            resolutionPath,
+            parameterIndex,
+          );
+        }
+        this.throwIfDisposed();
+        return this.resolveCachedAsync(
+          this._singletonInstances,
+          descriptor,
+          resolutionPath,
+          parameterIndex,
+        );
+      case 'scoped':
+        if (this._options.validateScopes) {
+          this.validateScope(descriptor, resolutionPath);
+        }
+        return this.resolveCachedAsync(
+          this._scopedInstances,
+          descriptor,
+          resolutionPath,
+          parameterIndex,
+        );
+      case 'transient':
+        return this.activateAsync(descriptor, resolutionPath, parameterIndex);
+      default:
+        throw new Error(`Unknown service lifetime: ${lifetime}`);
+    }
+  }
+
+  /**
+   * Gets a cached service instance, or creates it asynchronously while sharing the in-flight
+   * creation with concurrent requests
+   *
+   * A service class is cached before its properties are injected, but only services it depends on
+   * receive the cached instance before its creation completes, so that other requests never see
+   * an instance that has not been initialized.
+   *
+   * @template T - The type of the service to resolve
+   * @param instances - The cache of service instances by service descriptor
+   * @param descriptor - The service descriptor
+   * @param resolutionPath - The descriptors of the services being created that requested the service
+   * @param parameterIndex - The index of the constructor parameter requesting the service, if any
+   * @returns A promise that resolves to the service instance
+   * @throws CircularDependencyError if the service is already being created further up the resolution path
+   */
+  private async resolveCachedAsync<T>(
+    instances: Map<ServiceDescriptor<unknown>, unknown>,
+    descriptor: ServiceDescriptor<T>,
+    resolutionPath: readonly ServiceDescriptor<unknown>[],
+    parameterIndex?: number,
+  ): Promise<T> {
+    let pending = this._pendingInstances.get(descriptor);
+
+    if (instances.has(descriptor) && (!pending || resolutionPath.includes(descriptor))) {
+      return instances.get(descriptor) as T;
+    }
+
+    // Checked before joining the in-flight creation, which would otherwise wait on itself
+    this.throwIfCircular(descriptor, resolutionPath);
+
+    if (!pending) {
+      pending = this.activateAsync(descriptor, resolutionPath, parameterIndex, instances)
+        .then(instance => {
+          instances.set(descriptor, instance);
+          return instance;
+        })
+        .finally(() => this._pendingInstances.delete(descriptor));
+
+      this._pendingInstances.set(descriptor, pending);
+    }
+
+    return pending as Promise<T>;
+  }
+
+  /**
+   * Creates a service instance from its descriptor asynchronously, awaiting its asynchronous
+   * factory or `initAsync()` hook, and tracks it for disposal when it is disposable
+   *
+   * Like `activate()`, a service class is cached in the given instances before its properties are
+   * injected, and removed from them again if its creation fails.
+   *
+   * @template T - The type of the service to create
+   * @param descriptor - The service descriptor
+   * @param resolutionPath - The descriptors of the services being created that requested the service
+   * @param parameterIndex - The index of the constructor parameter requesting the service, if any
+   * @param instances - The cache of singleton or scoped service instances the service belongs to, if any
+   * @returns A promise that resolves to the newly created and initialized service instance
+   * @throws CircularDependencyError if the service is already being created further up the resolution path
+   * @throws ServiceActivationError if the constructor, factory or `initAsync()` hook throws
+   * @throws ObjectDisposedError if the provider was disposed while the service was being created,
+   * in which case the new instance is disposed
+   */
+  private async activateAsync<T>(
+    descriptor: ServiceDescriptor<T>,
+    resolutionPath: readonly ServiceDescriptor<unknown>[],
+    parameterIndex?: number,
+    instances?: Map<ServiceDescriptor<unknown>, unknown>,
+  ): Promise<T> {
+    const { factory, asyncFactory, decorator, decoratedType } = descriptor;
+
+    this.throwIfCircular(descriptor, resolutionPath);
+
+    const path = [...resolutionPath, descriptor];
+
+    if (descriptor.placeholder) {
+      throw new ScopedValueNotProvidedError(describeService(descriptor), path.map(describeService));
+    }
+
+    try {
+      let instance: T;
+
+      if (asyncFactory) {
+        instance = await asyncFactory(this.withAsyncResolutionPath(path));
+      } else if (decorator) {
+        instance = decorator(await this.resolveDependencyAsync(decoratedType!, path), this);
+      } else if (factory) {
+        instance = this.withResolutionPath(path, () => factory(this));
+      } else {
+        instance = await this.instantiateAsync(descriptor, path);
+        instances?.set(descriptor, instance);
+        await this.injectPropertiesAsync(instance, descriptor.implementationType, path);
+        await Promise.all(this.invokePostConstruct(instance, descriptor.implementationType));
+      }
+
+      if (this.isAsyncInitializable(instance)) {
+        await instance.initAsync();
+      }
+
+      if (this._disposed) {
+        if (this.isDisposable(instance)) {
+          await this.disposeInstanceAsync(instance);
+        }
+
+        throw new ObjectDisposedError(ServiceProvider.name);
+      }
+
+      this.trackDisposable(instance);
+
+      return instance;
+    } catch (error) {
+      instances?.delete(descriptor);
+
+      if (error instanceof ObjectDisposedError) {
+        throw error;
+      }
+
+      throw this.toActivationError(error, descriptor, path, parameterIndex);
+    }
+  }
+
+  /**
+   * Creates the view of this provider given to an asynchronous factory, whose `getServiceAsync()`
+   * resolves services as dependencies of the services being created, so that circular
+   * dependencies through asynchronous factories are detected
+   *
+   * The view shares every other field with this provider through its prototype, including
+   * whether it has been disposed.
+   *
+   * @param path - The descriptors of the services being created
+   * @returns The view of this provider
+   */
+  private withAsyncResolutionPath(path: readonly ServiceDescriptor<unknown>[]): ServiceProvider {
+    return Object.create(this, {
+      _asyncResolutionPath: { value: path },
+      _disposed: {
+        get: () => this._disposed,
+        set: (disposed: boolean) => (this._disposed = disposed),
+      },
+    });
+  }
+
+  /**
+   * Runs a synchronous resolution as if the given services were being created
+   *
+   * @template T - The type of the result
+   * @param path - The descriptors of the services being created
+   * @param resolve - The synchronous resolution to run
+   * @returns The result of the resolution
+   */
+  private withResolutionPath<T>(path: readonly ServiceDescriptor<unknown>[], resolve: () => T): T {
+    const length = this._resolutionPath.length;
+
+    this._resolutionPath.push(...path);
+
+    try {
+      return resolve();
+    } finally {
+      this._resolutionPath.length = length;
+    }
+  }
+
+  /**
+   * Checks whether a service can only be created asynchronously, either because it is registered
+   * with an asynchronous factory or because its class implements `initAsync()`
+   *
+   * @param descriptor - The service descriptor
+   * @returns True if the service must be resolved asynchronously, false otherwise
+   */
+  private requiresAsyncResolution(descriptor: ServiceDescriptor<unknown>): boolean {
+    const { implementationType, factory, asyncFactory, decorator } = descriptor;
+
+    if (asyncFactory) {
+      return true;
+    }
+
+    return !factory && !decorator && typeof implementationType.prototype?.initAsync === 'function';
+  }
+
+  /**
+   * Checks whether an instance implements an `initAsync()` hook
+   *
+   * @param instance - The service instance
+   * @returns True if the instance implements `initAsync()`, false otherwise
+   */
+  private isAsyncInitializable(instance: unknown): instance is IAsyncInitializable {
+    return (
+      instance !== null &&
+      typeof instance === 'object' &&
+      typeof (instance as Partial<IAsyncInitializable>).initAsync === 'function'
+    );
+  }
+
+  /**
+   * Throws if a `@postConstruct()` method called during synchronous resolution returned a promise,
+   * since the service would otherwise be returned before it has been initialized
+   *
+   * The promises are observed so that a rejection is not reported as unhandled.
+   *
+   * @param descriptor - The descriptor of the service being created
+   * @param results - The values returned by the `@postConstruct()` methods
+   * @throws AsyncResolutionRequiredError if any of the values is a promise
+   */
+  private throwIfPostConstructAsync(
+    descriptor: ServiceDescriptor<unknown>,
+    results: readonly unknown[],
+  ): void {
+    const pending = results.filter(
+      result =>
+        result !== null &&
+        (typeof result === 'object' || typeof result === 'function') &&
+        typeof (result as PromiseLike<unknown>).then === 'function',
+    ) as PromiseLike<unknown>[];
+
+    if (pending.length > 0) {
+      pending.forEach(result => Promise.resolve(result).catch(() => undefined));
+
+      const path = this._resolutionPath.map(describeService);
+      throw new AsyncResolutionRequiredError(describeService(descriptor), path);
+    }
+  }
+
+  /**
+   * Throws if a service is already being created further up the resolution path
+   *
+   * @param descriptor - The descriptor of the service about to be created
+   * @param resolutionPath - The descriptors of the services being created
+   * @throws CircularDependencyError if the service is already in the resolution path
+   */
+  private throwIfCircular(
+    descriptor: ServiceDescriptor<unknown>,
+    resolutionPath: readonly ServiceDescriptor<unknown>[],
+  ): void {
+    const cycleStart = resolutionPath.indexOf(descriptor);
+
+    if (cycleStart !== -1) {
+      const cycle = [...resolutionPath.slice(cycleStart), descriptor];
+      throw new CircularDependencyError(cycle.map(describeService));
+    }
+  }
+
+  /**
+   * Creates the error thrown when a requested service is not registered
+   *
+   * @param serviceType - The service identifier of the requested service
+   * @param resolutionPath - The descriptors of the services being created that requested the service
+   * @param parameterIndex - The index of the constructor parameter requesting the service, if any
+   * @param serviceKey - The key of the requested keyed service, if any
+   * @returns The service not registered error
+   */
+  private createNotRegisteredError(
+    serviceType: ServiceIdentifier<unknown>,
+    resolutionPath: readonly ServiceDescriptor<unknown>[],
+    parameterIndex?: number,
+    serviceKey?: ServiceKey,
+  ): ServiceNotRegisteredError {
+    const serviceName = describeServiceIdentifier(serviceType, serviceKey);
+    const path = [...resolutionPath.map(describeService), serviceName];
+    const requester = resolutionPath.at(-1);
+
+    return new ServiceNotRegisteredError(
+      this.createFailure(serviceName, path, requester, parameterIndex),
+    );
+  }
+
+  /**
+   * Wraps an error thrown while creating a service in a service activation error, unless it is
+   * already a resolution error raised further down the dependency chain
+   *
+   * @param error - The error thrown while creating the service
+   * @param descriptor - The descriptor of the service being created
+   * @param resolutionPath - The descriptors of the services being created, ending with the service
+   * @param parameterIndex - The index of the constructor parameter requesting the service, if any
+   * @returns The error to throw
+   */
+  private toActivationError(
+    error: unknown,
+    descriptor: ServiceDescriptor<unknown>,
+    resolutionPath: readonly ServiceDescriptor<unknown>[],
+    parameterIndex?: number,
+  ): unknown {
+    if (error instanceof ServiceResolutionError) {
+      return error;
+    }
+
+    const failure = this.createFailure(
+      describeService(descriptor),
+      resolutionPath.map(describeService),
+      resolutionPath.at(-2),
+      parameterIndex,
+    );
+
+    return new ServiceActivationError(failure, error);
+  }
+
+  /**
+   * Creates the details of a resolution failure for the service at the end of a dependency chain
+   *
+   * @param serviceName - The name of the service that failed to resolve
+   * @param path - The names of the services in the dependency chain, ending with the failed service
+   * @param requester - The descriptor of the service that requested the failed service, if any
+   * @param parameterIndex - The index of the constructor parameter requesting the service, if any
+   * @returns The resolution failure details
+   */
+  private createFailure(
+    serviceName: string,
+    path: readonly string[],
+    requester?: ServiceDescriptor<unknown>,
+    parameterIndex?: number,
+  ): ServiceResolutionFailure {
+    const requestingType = requester === undefined ? undefined : describeRequester(requester);
+
+    return { serviceName, path, requestingType, parameterIndex };
+  }
+
+  /**
+   * Tracks an instance for disposal if it implements `Symbol.asyncDispose`, `disposeAsync()`,
+   * `Symbol.dispose` or `dispose()`
+   *
+   * @param instance - The service instance to track
+   */
+  private trackDisposable(instance: unknown): void {
+    if (this.isDisposable(instance)) {
+      this._disposables.push(instance);
+    }
+  }
+
+  /**
+   * Checks whether an instance implements `Symbol.asyncDispose`, `disposeAsync()`, `Symbol.dispose`
+   * or `dispose()`
+   *
+   * @param instance - The service instance to check
+   * @returns True if the instance can be disposed, false otherwise
+   */
+  private isDisposable(instance: unknown): instance is DisposableService {
+    if (instance === null || typeof instance !== 'object') {
+      return false;
+    }
+
+    const candidate = instance as DisposableService;
+
+    return (
+      typeof candidate[Symbol.asyncDispose] === 'function' ||
+      typeof candidate.disposeAsync === 'function' ||
+      typeof candidate[Symbol.dispose] === 'function' ||
+      typeof candidate.dispose === 'function'
+    );
+  }
+
+  /**
+   * Checks whether a tracked instance implements `Symbol.dispose` or `dispose()`
+   *
+   * @param instance - The instance to check
+   * @returns True if the instance can be disposed synchronously, false otherwise
+   */
+  private isSyncDisposable(instance: DisposableService): boolean {
+    return typeof instance[Symbol.dispose] === 'function' || typeof instance.dispose === 'function';
+  }
+
+  /**
+   * Synchronously disposes a tracked instance
+   *
+   * @param instance - The instance to dispose
+   * @throws Error if the instance only supports asynchronous disposal
+   */
+  private disposeInstance(instance: DisposableService): void {
+    const symbolDispose = instance[Symbol.dispose];
+
+    if (typeof symbolDispose === 'function') {
+      symbolDispose.call(instance);
+      return;
+    }
+
+    if (typeof instance.dispose === 'function') {
+      instance.dispose();
+      return;
+    }
+
+    throw new Error(
+      `'${instance.constructor.name}' only supports asynchronous disposal. Use disposeAsync() instead.`,
+    );
+  }
+
+  /**
+   * Asynchronously disposes a tracked instance, falling back to synchronous disposal
+   *
+   * @param instance - The instance to dispose
+   * @returns A promise that resolves once the instance has been disposed
+   */
+  private async disposeInstanceAsync(instance: DisposableService): Promise<void> {
+    const symbolAsyncDispose = instance[Symbol.asyncDispose];
+
+    if (typeof symbolAsyncDispose === 'function') {
+      await symbolAsyncDispose.call(instance);
+      return;
+    }
+
+    if (typeof instance.disposeAsync === 'function') {
+      await instance.disposeAsync();
+      return;
+    }
+
+    this.disposeInstance(instance);
+  }
+
+  /**
+   * Throws an aggregate of the errors raised while disposing instances, if there were any
+   *
+   * @param errors - The errors raised while disposing instances
+   * @throws AggregateError if there were any errors
+   */
+  private throwIfDisposalFailed(errors: unknown[]): void {
+    if (errors.length > 0) {
+      throw new AggregateError(errors, 'One or more errors occurred while disposing services.');
+    }
+  }
+
+  /**
+   * Throws if the provider has been disposed
+   *
+   * @throws ObjectDisposedError if the provider has been disposed
+   */
+  private throwIfDisposed(): void {
+    if (this._disposed) {
+      throw new ObjectDisposedError(ServiceProvider.name);
+    }
+  }
+
+  /**
+   * Creates an instance of a service class and resolves its dependencies
+   *
+   * Parameters without an injected service take the next runtime argument of the activation plan,
+   * and any arguments left over are passed after the last parameter. Trailing optional parameters
+   * without an argument are omitted so that their defaults apply.
+   *
+   * @template T - The type of the service to create
+   * @param descriptor - The descriptor of the service class
+   * @param plan - How to call the constructor of a class created with runtime arguments, if any
+   * @returns A new instance of the service class with its dependencies resolved
+   * @throws NotInjectableError if strict mode is enabled and the class is not marked with `@injectable()`
+   * @throws MissingInjectDecoratorError if a constructor parameter has no `@inject` decorator and no runtime argument
+   */
+  private instantiate<T>(descriptor: ServiceDescriptor<T>, plan?: ActivationPlan): T {
+    const ctor = descriptor.implementationType;
+    const { strict } = this._options;
+    const args = plan?.args ?? [];
+    let nextArg = 0;
+
+    this.throwIfNotInjectable(descriptor, this._resolutionPath);
+
+    const injections = plan?.injections ?? getDescriptorInjections(descriptor, strict);
+    const params: unknown[] = [];
+
+    for (const [index, { serviceType, options }] of injections.entries()) {
+      if (serviceType === undefined) {
+        if (nextArg < args.length) {
+          params[index] = args[nextArg++];
+        } else if (plan === undefined || index < ctor.length) {
+          const path = this._resolutionPath.map(describeService);
+          throw new MissingInjectDecoratorError(ctor.name, index, path);
+        }
+        // Optional and rest parameters without a runtime argument are left to their defaults
+      } else if (options.lazy || options.factory) {
+        params[index] = this.createResolver(serviceType, options);
+      } else if (options.all) {
+        params[index] = this.resolveAll(serviceType, index, options.key);
+      } else if (options.optional) {
+        params[index] = this.tryResolveDependency(serviceType, index, options.key);
+      } else {
+        params[index] = this.resolveDependency(serviceType, index, options.key);
+      }
+    }
+
+    return new ctor(...params, ...args.slice(nextArg));
+  }
+
+  /**
+   * Creates an instance of a service class asynchronously, resolving its dependencies one at a
+   * time so that asynchronous dependencies are awaited
+   *
+   * @template T - The type of the service to create
+   * @param descriptor - The descriptor of the service class
+   * @param resolutionPath - The descriptors of the services being created, ending with the class
+   * @returns A promise that resolves to a new instance of the service class
+   * @throws NotInjectableError if strict mode is enabled and the class is not marked with `@injectable()`
+   * @throws MissingInjectDecoratorError if a constructor parameter has no `@inject` decorator
+   */
+  private async instantiateAsync<T>(
+    descriptor: ServiceDescriptor<T>,
+    resolutionPath: readonly ServiceDescriptor<unknown>[],
+  ): Promise<T> {
+    const ctor = descriptor.implementationType;
+    const { strict } = this._options;
+    const params: unknown[] = [];
+
+    this.throwIfNotInjectable(descriptor, resolutionPath);
+
+    for (const [index, { serviceType, options }] of getDescriptorInjections(
+      descriptor,
+      strict,
+    ).entries()) {
+      if (serviceType === undefined) {
+        const path = resolutionPath.map(describeService);
+        throw new MissingInjectDecoratorError(ctor.name, index, path);
+      }
+
+      if (options.lazy || options.factory) {
+        params.push(this.createResolver(serviceType, options));
+      } else if (options.all) {
+        params.push(await this.resolveAllAsync(serviceType, resolutionPath, index, options.key));
+      } else if (options.optional) {
+        params.push(
+          await this.tryResolveDependencyAsync(serviceType, resolutionPath, index, options.key),
+        );
+      } else {
+        params.push(
+          await this.resolveDependencyAsync(serviceType, resolutionPath, index, options.key),
+        );
+      }
+    }
+
+    return new ctor(...params);
+  }
+
+  /**
+   * Creates the function injected into a parameter decorated with `@injectLazy()` or `@injectFactory()`
+   *
+   * The function resolves the service from this provider, so a service created within a scope
+   * receives instances from that scope, and resolves the keyed service when the parameter is also
+   * decorated with `@injectKeyed()`.
+   *
+   * @param serviceType - The service identifier of the service to resolve
+   * @param options - How the parameter is injected
+   * @returns A function that resolves the service on every call, or only on its first call when lazy
+   */
+  private createResolver(
+    serviceType: ServiceIdentifier<unknown>,
+    options: ParameterInjectionOptions,
+  ): () => unknown {
+    const resolve = () => {
+      this.throwIfDisposed();
+
+      return options.optional
+        ? this.tryResolveDependency(serviceType, undefined, options.key)
+        : this.resolveDependency(serviceType, undefined, options.key);
+    };
+
+    if (options.factory) {
+      return resolve;
+    }
+
+    let resolved = false;
+    let instance: unknown;
+
+    return () => {
+      if (!resolved) {
+        instance = resolve();
+        resolved = true;
+      }
+
+      return instance;
+    };
+  }
+
+  /**
+   * Throws in strict mode if a class about to be constructed is not marked with `@injectable()`
+   * and has no explicitly listed dependencies
+   *
+   * @param descriptor - The descriptor of the service class
+   * @param resolutionPath - The descriptors of the services being created, ending with the class
+   * @throws NotInjectableError if strict mode is enabled and the class is not injectable
+   */
+  private throwIfNotInjectable(
+    descriptor: ServiceDescriptor<unknown>,
+    resolutionPath: readonly ServiceDescriptor<unknown>[],
+  ): void {
+    if (this._options.strict && !isInjectable(descriptor)) {
+      throw new NotInjectableError(
+        descriptor.implementationType.name,
+        resolutionPath.map(describeService),
+      );
+    }
+  }
+
+  /**
+   * Injects the services requested by the decorated fields and setters of a service instance
+   *
+   * @template T - The type of the service instance
+   * @param instance - The newly constructed service instance
+   * @param ctor - The constructor of the service class
+   * @throws ServiceNotRegisteredError if a required property dependency is not registered
+   */
+  private injectProperties<T>(instance: T, ctor: Constructor<T>): void {
+    for (const { propertyKey, serviceType, options } of getPropertyInjections(ctor)) {
+      (instance as Record<string | symbol, unknown>)[propertyKey] = options.optional
+        ? this.tryResolveDependency(serviceType)
+        : this.resolveDependency(serviceType);
+    }
+  }
+
+  /**
+   * Injects the services requested by the decorated fields and setters of a service instance,
+   * awaiting asynchronous dependencies one at a time
+   *
+   * @template T - The type of the service instance
+   * @param instance - The newly constructed service instance
+   * @param ctor - The constructor of the service class
+   * @param resolutionPath - The descriptors of the services being created, ending with the class
+   * @returns A promise that resolves once every property has been injected
+   * @throws ServiceNotRegisteredError if a required property dependency is not registered
+   */
+  private async injectPropertiesAsync<T>(
+    instance: T,
+    ctor: Constructor<T>,
+    resolutionPath: readonly ServiceDescriptor<unknown>[],
+  ): Promise<void> {
+    for (const { propertyKey, serviceType, options } of getPropertyInjections(ctor)) {
+      (instance as Record<string | symbol, unknown>)[propertyKey] = options.optional
+        ? await this.tryResolveDependencyAsync(serviceType, resolutionPath)
+        : await this.resolveDependencyAsync(serviceType, resolutionPath);
+    }
+  }
+
+  /**
+   * Calls the `@postConstruct()` methods of a service instance, base class methods first
+   *
+   * @template T - The type of the service instance
+   * @param instance - The service instance whose dependencies have all been injected
+   * @param ctor - The constructor of the service class
+   * @returns The values returned by the methods, so that asynchronous resolution can await them
+   */
+  private invokePostConstruct<T>(instance: T, ctor: Constructor<T>): unknown[] {
+    return getPostConstructMethods(ctor).map(method =>
+      (instance as Record<string | symbol, () => unknown>)[method]!(),
+    );
   }
 }
@@ -0,0 +1,297 @@
+import { getDescriptorInjections, getPropertyInjections, isInjectable } from './decorators.js';
+import {
+  CircularDependencyError,
+  ContainerValidationError,
+  MissingInjectDecoratorError,
+  NotInjectableError,
+  ScopeValidationError,
+  ServiceNotRegisteredError,
+  ServiceResolutionError,
+} from './errors.js';
+import { describeRequester, describeService, describeServiceIdentifier } from './serviceNames.js';
+import type { ServiceDescriptor, ServiceIdentifier, ServiceKey } from './types.js';
+
+/**
+ * Validates the dependency graph of a set of service descriptors without creating any services.
+ *
+ * The validator inspects the constructor and property metadata of every class registration and
+ * reports unregistered dependencies, undecorated constructor parameters, circular dependencies and
+ * singletons that capture scoped services. Factory registrations, synchronous or asynchronous,
+ * cannot be inspected and are treated as having no dependencies, as are scoped placeholders.
+ *
+ * @internal
+ */
+export class ServiceProviderValidator {
+  /**
+   * Map of service descriptors by service identifier, in registration order
+   */
+  private readonly _descriptors: Map<ServiceIdentifier<unknown>, ServiceDescriptor<unknown>[]>;
+
+  /**
+   * Open service descriptors that satisfy every member of an identifier family
+   */
+  private readonly _openDescriptors: readonly ServiceDescriptor<unknown>[];
+
+  /**
+   * Whether classes must be marked with `@injectable()` and describe every constructor parameter
+   */
+  private readonly _strict: boolean;
+
+  /**
+   * Creates a new service provider validator
+   *
+   * @param descriptors - Map of every descriptor registered for each service identifier
+   * @param openDescriptors - Open service descriptors that satisfy every member of an identifier family
+   * @param strict - Whether classes must be marked with `@injectable()` and describe every constructor parameter
+   */
+  constructor(
+    descriptors: Map<ServiceIdentifier<unknown>, ServiceDescriptor<unknown>[]>,
+    openDescriptors: readonly ServiceDescriptor<unknown>[] = [],
+    strict = false,
+  ) {
+    this._descriptors = descriptors;
+    this._openDescriptors = openDescriptors;
+    this._strict = strict;
+  }
+
+  /**
+   * Validates every registered service
+   *
+   * @throws ContainerValidationError if any service cannot be constructed
+   */
+  validate(): void {
+    const descriptors = Array.from(this._descriptors.values()).flat();
+    const errors: ServiceResolutionError[] = [
+      ...descriptors.flatMap(descriptor => this.findUnresolvableParameters(descriptor)),
+      ...this.findCycles(descriptors),
+      ...descriptors
+        .filter(descriptor => descriptor.lifetime === 'singleton')
+        .flatMap(descriptor => this.findCaptiveDependencies(descriptor)),
+    ];
+
+    if (errors.length > 0) {
+      throw new ContainerValidationError(errors);
+    }
+  }
+
+  /**
+   * Finds the constructor parameters of a service that cannot be resolved
+   *
+   * @param descriptor - The service descriptor
+   * @returns An error for a class that is not injectable in strict mode, each undecorated parameter
+   * and each required constructor or property dependency that is not registered
+   */
+  private findUnresolvableParameters(
+    descriptor: ServiceDescriptor<unknown>,
+  ): ServiceResolutionError[] {
+    if (
+      descriptor.factory ||
+      descriptor.asyncFactory ||
+      descriptor.openFactory ||
+      descriptor.decorator ||
+      descriptor.placeholder
+    ) {
+      return [];
+    }
+
+    const serviceName = describeService(descriptor);
+    const requestingType = describeRequester(descriptor);
+
+    const injectableErrors =
+      this._strict && !isInjectable(descriptor)
+        ? [new NotInjectableError(requestingType, [serviceName])]
+        : [];
+
+    const propertyErrors = getPropertyInjections(descriptor.implementationType)
+      .filter(
+        ({ serviceType, options }) =>
+          !options.optional && this.getDescriptors(serviceType).length === 0,
+      )
+      .map(({ serviceType }) => {
+        const dependencyName = describeServiceIdentifier(serviceType);
+
+        return new ServiceNotRegisteredError({
+          serviceName: dependencyName,
+          path: [serviceName, dependencyName],
+          requestingType,
+        });
+      });
+
+    const parameterErrors = getDescriptorInjections(
+      descriptor,
+      this._strict,
+    ).flatMap<ServiceResolutionError>(({ serviceType, options }, parameterIndex) => {
+      if (serviceType === undefined) {
+        return [new MissingInjectDecoratorError(requestingType, parameterIndex, [serviceName])];
+      }
+
+      if (
+        options.all ||
+        options.optional ||
+        this.getDescriptors(serviceType, options.key).length > 0
+      ) {
+        return [];
+      }
+
+      const dependencyName = describeServiceIdentifier(serviceType, options.key);
+
+      return [
+        new ServiceNotRegisteredError({
+          serviceName: dependencyName,
+          path: [serviceName, dependencyName],
+          requestingType,
+          parameterIndex,
+        }),
+      ];
+    });
+
+    return [...injectableErrors, ...parameterErrors, ...propertyErrors];
+  }
+
+  /**
+   * Finds every circular dependency between the registered services
+   *
+   * @param descriptors - Every registered service descriptor
+   * @returns An error for each cycle found
+   */
+  private findCycles(descriptors: ServiceDescriptor<unknown>[]): CircularDependencyError[] {
+    const errors: CircularDependencyError[] = [];
+    const visited = new Set<ServiceDescriptor<unknown>>();
+    const path: ServiceDescriptor<unknown>[] = [];
+
+    const visit = (descriptor: ServiceDescriptor<unknown>): void => {
+      const cycleStart = path.indexOf(descriptor);
+
+      if (cycleStart !== -1) {
+        const cycle = [...path.slice(cycleStart), descriptor];
+        errors.push(new CircularDependencyError(cycle.map(describeService)));
+        return;
+      }
+
+      if (visited.has(descriptor)) {
+        return;
+      }
+
+      visited.add(descriptor);
+      path.push(descriptor);
+      this.getDependencies(descriptor).forEach(visit);
+      path.pop();
+    };
+
+    descriptors.forEach(visit);
+
+    return errors;
+  }
+
+  /**
+   * Finds the scoped services a singleton depends on, directly or transitively
+   *
+   * Other singletons are not followed, since they are validated on their own.
+   *
+   * @param singleton - The descriptor of the singleton service
+   * @returns An error naming the captive dependency chain for each scoped service found
+   */
+  private findCaptiveDependencies(singleton: ServiceDescriptor<unknown>): ScopeValidationError[] {
+    const errors: ScopeValidationError[] = [];
+    const visited = new Set<ServiceDescriptor<unknown>>([singleton]);
+
+    const visit = (path: ServiceDescriptor<unknown>[]): void => {
+      for (const dependency of this.getDependencies(path.at(-1)!, true)) {
+        if (visited.has(dependency) || dependency.lifetime === 'singleton') {
+          continue;
+        }
+
+        visited.add(dependency);
+
+        if (dependency.lifetime === 'scoped') {
+          errors.push(new ScopeValidationError([...path, dependency].map(describeService), 0));
+        } else {
+          visit([...path, dependency]);
+        }
+      }
+    };
+
+    visit([singleton]);
+
+    return errors;
+  }
+
+  /**
+   * Gets the registered descriptors a service is created from
+   *
+   * Property dependencies are injected after construction and lazy or factory dependencies are
+   * resolved when first called, so they cannot form a circular dependency through a singleton or
+   * scoped service and are only followed when asked for.
+   *
+   * @param descriptor - The service descriptor
+   * @param includeDeferred - Whether to include the services injected into properties or resolved on demand
+   * @returns The descriptors of the registered services the service depends on
+   */
+  private getDependencies(
+    descriptor: ServiceDescriptor<unknown>,
+    includeDeferred = false,
+  ): ServiceDescriptor<unknown>[] {
+    if (descriptor.decorator) {
+      return this.getDescriptors(descriptor.decoratedType!);
+    }
+
+    if (
+      descriptor.factory ||
+      descriptor.asyncFactory ||
+      descriptor.openFactory ||
+      descriptor.placeholder
+    ) {
+      return [];
+    }
+
+    const properties = includeDeferred
+      ? getPropertyInjections(descriptor.implementationType).flatMap(
+          ({ serviceType }) => this.getDescriptors(serviceType).at(-1) ?? [],
+        )
+      : [];
+
+    const parameters = getDescriptorInjections(descriptor, this._strict).flatMap(
+      ({ serviceType, options }) => {
+        const deferred = options.lazy || options.factory;
+        const registered =
+          serviceType === undefined || (deferred && !includeDeferred)
+            ? []
+            : this.getDescriptors(serviceType, options.key);
+
+        if (registered.length === 0) {
+          return [];
+        }
+
+        return options.all ? registered : [registered.at(-1)!];
+      },
+    );
+
+    return [...parameters, ...properties];
+  }
+
+  /**
+   * Gets the descriptors registered for a service identifier, either without a key or with the given key
+   *
+   * @param serviceType - The service identifier
+   * @param serviceKey - The key of the keyed services, or undefined for services registered without a key
+   * @returns The matching descriptors, or the open registration satisfying an identifier family member
+   */
+  private getDescriptors(
+    serviceType: ServiceIdentifier<unknown>,
+    serviceKey?: ServiceKey,
+  ): ServiceDescriptor<unknown>[] {
+    const registered = (this._descriptors.get(serviceType) ?? []).filter(
+      descriptor => descriptor.serviceKey === serviceKey,
+    );
+
+    if (registered.length > 0 || serviceKey !== undefined) {
+      return registered;
+    }
+
+    const open = [...this._openDescriptors]
+      .reverse()
+      .find(descriptor => descriptor.family!.hasMember(serviceType));
+
+    return open ? [open] : [];
+  }
+}
@@ -22,6 +22,11 @@ export type Constructor<T> = new (...args: any[]) => T;
  */
 export type ServiceIdentifier<T = unknown> = symbol & { __brand: T };
 
+/**
+ * A key that distinguishes one of several implementations registered under the same service identifier
+ */
+export type ServiceKey = string | number | symbol;
+
 /**
  * A factory function that creates a service instance
  *
@@ -29,6 +34,178 @@ export type ServiceIdentifier<T = unknown> = symbol & { __brand: T };
  */
 export type ServiceFactory<T> = (provider: IServiceProvider) => T;
 
+/**
+ * A factory function that creates a service instance asynchronously
+ *
+ * @template T - The type of the service to create
+ */
+export type AsyncServiceFactory<T> = (provider: IServiceProvider) => Promise<T>;
+
+/**
+ * A factory function that creates the service identified by a member of an identifier family
+ *
+ * @template TToken - The type of the tokens the family's members are derived from
+ * @template T - The type of the service to create
+ */
+export type OpenServiceFactory<TToken, T> = (provider: IServiceProvider, token: TToken) => T;
+
+/**
+ * A family of service identifiers whose members are derived from type tokens, such as an
+ * `IRepository<T>` identifier for each entity class
+ *
+ * Calling the family with the same token always returns the same member identifier.
+ *
+ * @template TToken - The type of the tokens members are derived from
+ * @template T - The type of the services identified by the members
+ */
+export type ServiceIdentifierFamily<TToken, T> = {
+  /**
+   * Gets the member identifier for a token
+   *
+   * @template TMember - The type of the service identified by the member
+   * @param token - The token the member is derived from
+   * @returns The member identifier
+   */
+  <TMember extends T = T>(token: TToken): ServiceIdentifier<TMember>;
+
+  /**
+   * The identifier open registrations of the family are registered under
+   */
+  readonly serviceType: ServiceIdentifier<T>;
+
+  /**
+   * Checks whether a service identifier is a member of the family
+   *
+   * @param serviceType - The service identifier
+   * @returns True if the identifier was derived from a token by the family, false otherwise
+   * @internal
+   */
+  hasMember(serviceType: ServiceIdentifier<unknown>): boolean;
+
+  /**
+   * Gets the token a member identifier was derived from
+   *
+   * @param serviceType - The member identifier
+   * @returns The token, or undefined if the identifier is not a member of the family
+   * @internal
+   */
+  getToken(serviceType: ServiceIdentifier<unknown>): TToken | undefined;
+};
+
+/**
+ * A function that resolves a service the first time it is called and returns the same instance afterwards
+ *
+ * @template T - The type of the service
+ */
+export type Lazy<T> = () => T;
+
+/**
+ * A value whose properties, and the properties of its nested objects, are all optional
+ *
+ * @template T - The type of the value
+ */
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends readonly unknown[]
+    ? T[K]
+    : T[K] extends object
+      ? DeepPartial<T[K]>
+      : T[K];
+};
+
+/**
+ * A function that loads the values to bind options from, such as the contents of a JSON file
+ */
+export type OptionsSource = {
+  /**
+   * Loads the values
+   *
+   * @returns The loaded values
+   */
+  (): Record<string, unknown>;
+
+  /**
+   * Watches the underlying values for changes, if the source supports reloading
+   *
+   * @param onChange - Called when the values may have changed
+   * @returns A function that stops watching
+   */
+  watch?(onChange: () => void): () => void;
+};
+
+/**
+ * Options for loading options values from a JSON file
+ */
+export type JsonFileSourceOptions = {
+  /**
+   * Whether to load no values instead of throwing when the file does not exist
+   */
+  optional?: boolean;
+
+  /**
+   * Whether options monitors reload the options when the file changes
+   */
+  reloadOnChange?: boolean;
+};
+
+/**
+ * Interface for the current value of options that are reloaded when their sources change
+ *
+ * @template T - The type of the options
+ */
+export interface IOptionsMonitor<T> {
+  /**
+   * The options created from the latest values of their sources
+   */
+  readonly currentValue: T;
+
+  /**
+   * Registers a listener called with the new options each time they are reloaded
+   *
+   * @param listener - The listener to call
+   * @returns A function that removes the listener
+   */
+  onChange(listener: (options: T) => void): () => void;
+}
+
+/**
+ * Interface for the value of options at the time a scope first requested them
+ *
+ * @template T - The type of the options
+ */
+export interface IOptionsSnapshot<T> {
+  /**
+   * The options, which do not change for the lifetime of the scope
+   */
+  readonly value: T;
+}
+
+/**
+ * A function that wraps a service instance to add behavior such as logging, caching or retries
+ *
+ * @template T - The type of the decorated service
+ */
+export type ServiceDecorator<T> = (inner: T, provider: IServiceProvider) => T;
+
+/**
+ * A factory function that creates a keyed service instance
+ *
+ * @template T - The type of the service to create
+ */
+export type KeyedServiceFactory<T> = (provider: IServiceProvider, serviceKey: ServiceKey) => T;
+
+/**
+ * A service that needs asynchronous initialization after it is constructed
+ *
+ * Services implementing `initAsync()` must be resolved with `getServiceAsync()`, which awaits the
+ * hook before the service is handed to its consumers.
+ */
+export interface IAsyncInitializable {
+  /**
+   * Initializes the service after it is constructed
+   */
+  initAsync(): Promise<void>;
+}
+
 /**
  * Descriptor for a registered service
  *
@@ -38,128 +215,959 @@ export type ServiceDescriptor<T = unknown> = {
   /**
    * The service identifier
    */
-  serviceType: ServiceIdentifier<T>;
+  serviceType: ServiceIdentifier<T>;
+
+  /**
+   * The implementation class constructor
+   */
+  implementationType: Constructor<T>;
+
+  /**
+   * The service lifetime
+   */
+  lifetime: ServiceLifetime;
+
+  /**
+   * Optional factory function to create the service instance
+   */
+  factory?: ServiceFactory<T>;
+
+  /**
+   * Optional asynchronous factory function to create the service instance
+   */
+  asyncFactory?: AsyncServiceFactory<T>;
+
+  /**
+   * The key of a keyed service, or undefined for a service registered without a key
+   */
+  serviceKey?: ServiceKey;
+
+  /**
+   * The identifier family an open registration satisfies, if any
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  family?: ServiceIdentifierFamily<any, T>;
+
+  /**
+   * Optional factory function to create the service for each member of the identifier family
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  openFactory?: OpenServiceFactory<any, T>;
+
+  /**
+   * Optional function that wraps the decorated service instance
+   *
+   * @param inner - The decorated service instance
+   * @param provider - The service provider resolving the service
+   * @returns The instance that wraps the decorated service
+   */
+  decorator?(inner: T, provider: IServiceProvider): T;
+
+  /**
+   * The hidden identifier the service wrapped by a decorator registration was moved to, if any
+   */
+  decoratedType?: ServiceIdentifier<T>;
+
+  /**
+   * The identifier a decorator class injects to receive the service it wraps, which stays the
+   * decorated service's identifier when the decorator is itself wrapped by a later decorator
+   */
+  injectedDecoratedType?: ServiceIdentifier<T>;
+
+  /**
+   * The service identifiers to inject into the constructor parameters of the implementation
+   * class, in parameter order, used instead of its decorator metadata
+   */
+  dependencies?: readonly ServiceIdentifier<unknown>[];
+
+  /**
+   * Whether the service is a scoped placeholder whose instance must be provided to each scope
+   */
+  placeholder?: boolean;
+
+  /**
+   * Whether a singleton service is created when the provider is built rather than when it is first requested
+   */
+  eager?: boolean;
+};
+
+/**
+ * A service instance that releases its resources synchronously, asynchronously or both
+ * @internal
+ */
+export type DisposableService = {
+  dispose?(): void;
+  disposeAsync?(): PromiseLike<void>;
+  [Symbol.dispose]?(): void;
+  [Symbol.asyncDispose]?(): PromiseLike<void>;
+};
+
+/**
+ * Options that control how a service provider resolves services
+ */
+export type ServiceProviderOptions = {
+  /**
+   * Whether to throw when a scoped service is resolved from the root provider or is
+   * depended on, directly or transitively, by a singleton
+   */
+  validateScopes?: boolean;
+
+  /**
+   * Whether to validate the dependency graph of every registered service when the provider is
+   * built, before any service is created
+   */
+  validateOnBuild?: boolean;
+
+  /**
+   * Whether to create every singleton service when the provider is built rather than when it is
+   * first requested
+   */
+  eagerSingletons?: boolean;
+
+  /**
+   * Whether to refuse to construct classes that are not marked with `@injectable()` and classes
+   * whose constructors declare more parameters than their injection metadata describes
+   */
+  strict?: boolean;
+};
+
+/**
+ * Options for marking a class as injectable
+ */
+export type InjectableOptions = {
+  /**
+   * The lifetime used when the class is registered without one, such as with `services.add()`
+   */
+  lifetime?: ServiceLifetime;
+
+  /**
+   * The service identifiers to inject into the constructor parameters, in parameter order, used
+   * instead of parameter decorators, which standard decorators do not support
+   */
+  deps?: readonly ServiceIdentifier<unknown>[];
+};
+
+/**
+ * A standard (TC39) class decorator
+ */
+export type StandardClassDecorator = (
+  // eslint-disable-next-line @typescript-eslint/no-unsafe-function-type
+  target: Function,
+  context: ClassDecoratorContext,
+) => void;
+
+/**
+ * A standard (TC39) decorator for fields and accessors
+ */
+export type StandardPropertyDecorator = (
+  target: ClassAccessorDecoratorTarget<unknown, unknown> | undefined,
+  context: ClassFieldDecoratorContext | ClassAccessorDecoratorContext,
+) => void;
+
+/**
+ * A standard (TC39) method decorator
+ */
+export type StandardMethodDecorator = (
+  target: unknown,
+  context: ClassMethodDecoratorContext,
+) => void;
+
+/**
+ * Options for creating a service scope
+ */
+export type ScopeOptions = {
+  /**
+   * Values to provide to the scope for scoped services, such as the current request or user
+   */
+  values?: Iterable<readonly [ServiceIdentifier<unknown>, unknown]>;
+};
+
+/**
+ * Options for registering a singleton service
+ */
+export type SingletonOptions = {
+  /**
+   * Whether to create the singleton when the provider is built rather than when it is first requested
+   */
+  eager?: boolean;
+};
+
+/**
+ * Options for injecting a service into a constructor parameter
+ */
+export type InjectOptions = {
+  /**
+   * Whether to inject `undefined` instead of throwing when the service is not registered
+   */
+  optional?: boolean;
+};
+
+/**
+ * Options describing how a service is injected into a constructor parameter
+ * @internal
+ */
+export type ParameterInjectionOptions = InjectOptions & {
+  /**
+   * Whether to inject every registered implementation of the service as an array
+   */
+  all?: boolean;
+
+  /**
+   * The key of the keyed service to inject, if any
+   */
+  key?: ServiceKey;
+
+  /**
+   * Whether to inject a function that resolves the service on its first call and returns the same instance afterwards
+   */
+  lazy?: boolean;
+
+  /**
+   * Whether to inject a function that resolves the service on every call
+   */
+  factory?: boolean;
+};
+
+/**
+ * Describes the service injected into a constructor parameter
+ * @internal
+ */
+export type ParameterInjection = {
+  /**
+   * The service identifier of the dependency, or undefined if the parameter is not decorated
+   */
+  serviceType: ServiceIdentifier<unknown> | undefined;
+
+  /**
+   * How the dependency is injected
+   */
+  options: ParameterInjectionOptions;
+};
+
+/**
+ * Describes the service injected into a property after construction
+ * @internal
+ */
+export type PropertyInjection = {
+  /**
+   * The name of the decorated field or accessor
+   */
+  propertyKey: string | symbol;
+
+  /**
+   * The service identifier of the dependency
+   */
+  serviceType: ServiceIdentifier<unknown>;
+
+  /**
+   * How the dependency is injected
+   */
+  options: InjectOptions;
+};
+
+/**
+ * Describes where in the dependency graph a service failed to resolve
+ */
+export type ServiceResolutionFailure = {
+  /**
+   * The name of the service that failed to resolve
+   */
+  serviceName: string;
+
+  /**
+   * The names of the services in the dependency chain, ending with the service that failed
+   */
+  path: readonly string[];
+
+  /**
+   * The name of the class or service that requested the failed service, if any
+   */
+  requestingType?: string;
+
+  /**
+   * The index of the constructor parameter that requested the failed service, if any
+   */
+  parameterIndex?: number;
+};
+
+/**
+ * Creates a typed service identifier
+ *
+ * @template T - The type of the service
+ * @param name - Optional name used to describe the service in error messages
+ * @returns A unique identifier for the service type
+ *
+ * @example
+ * ```typescript
+ * interface IUserService {
+ *   getUserById(id: string): Promise<User>;
+ * }
+ *
+ * const userServiceIdentifier = createServiceIdentifier<IUserService>('IUserService');
+ * ```
+ */
+export function createServiceIdentifier<T>(name?: string): ServiceIdentifier<T> {
+  return Symbol(name) as ServiceIdentifier<T>;
+}
+
+/**
+ * Creates a family of typed service identifiers derived from type tokens
+ *
+ * A single open registration, such as `addScopedOpen()`, satisfies every member of the family.
+ *
+ * @template T - The type of the services identified by the members
+ * @template TToken - The type of the tokens members are derived from
+ * @param name - Optional name used to describe the family and its members in error messages
+ * @returns A function that returns the member identifier for a token
+ *
+ * @example
+ * ```typescript
+ * interface IRepository<T> {
+ *   findById(id: string): Promise<T>;
+ * }
+ *
+ * const repositoryOf = createServiceIdentifierFamily<IRepository<unknown>>('IRepository');
+ * const userRepositoryIdentifier = repositoryOf<IRepository<User>>(User);
+ * ```
+ */
+export function createServiceIdentifierFamily<T, TToken = Constructor<unknown>>(
+  name?: string,
+): ServiceIdentifierFamily<TToken, T> {
+  const members = new Map<TToken, ServiceIdentifier<T>>();
+  const tokens = new Map<ServiceIdentifier<unknown>, TToken>();
+
+  const getMember = (token: TToken): ServiceIdentifier<T> => {
+    let member = members.get(token);
+
+    if (!member) {
+      const tokenName =
+        typeof token === 'function'
+          ? token.name
+          : typeof token === 'symbol'
+            ? (token.description ?? '')
+            : String(token);
+
+      member = createServiceIdentifier<T>(`${name ?? ''}<${tokenName}>`);
+      members.set(token, member);
+      tokens.set(member, token);
+    }
+
+    return member;
+  };
+
+  return Object.assign(getMember, {
+    serviceType: createServiceIdentifier<T>(name),
+    hasMember: (serviceType: ServiceIdentifier<unknown>) => tokens.has(serviceType),
+    getToken: (serviceType: ServiceIdentifier<unknown>) => tokens.get(serviceType),
+  }) as ServiceIdentifierFamily<TToken, T>;
+}
+
+/**
+ * The family of identifiers of classes registered as their own service
+ */
+const classIdentifiers = createServiceIdentifierFamily<unknown>();
+
+/**
+ * Gets the service identifier of a class registered as its own service
+ *
+ * Calling this function with the same class always returns the same identifier.
+ *
+ * @template T - The type of the class
+ * @param implementationType - The class
+ * @returns The service identifier of the class
+ *
+ * @example
+ * ```typescript
+ * services.add(UserService);
+ *
+ * const userService = provider.getService(serviceIdentifierOf(UserService));
+ * ```
+ */
+export function serviceIdentifierOf<T>(implementationType: Constructor<T>): ServiceIdentifier<T> {
+  return classIdentifiers(implementationType) as ServiceIdentifier<T>;
+}
+
+/**
+ * The family of identifiers of options monitors, derived from the identifiers of their options
+ */
+const optionsMonitors = createServiceIdentifierFamily<
+  IOptionsMonitor<unknown>,
+  ServiceIdentifier<unknown>
+>('IOptionsMonitor');
+
+/**
+ * The family of identifiers of options snapshots, derived from the identifiers of their options
+ */
+const optionsSnapshots = createServiceIdentifierFamily<
+  IOptionsSnapshot<unknown>,
+  ServiceIdentifier<unknown>
+>('IOptionsSnapshot');
+
+/**
+ * Gets the service identifier of the singleton monitor of configured options
+ *
+ * Calling this function with the same options identifier always returns the same identifier.
+ *
+ * @template T - The type of the options
+ * @param optionsType - The service identifier the options are injected with
+ * @returns The service identifier of the options monitor
+ *
+ * @example
+ * ```typescript
+ * class ConnectionPool {
+ *   constructor(
+ *     @inject(optionsMonitorOf(databaseOptionsIdentifier)) monitor: IOptionsMonitor<DatabaseOptions>,
+ *   ) {
+ *     monitor.onChange(options => this.resize(options.poolSize));
+ *   }
+ * }
+ * ```
+ */
+export function optionsMonitorOf<T>(
+  optionsType: ServiceIdentifier<T>,
+): ServiceIdentifier<IOptionsMonitor<T>> {
+  return optionsMonitors(optionsType) as ServiceIdentifier<IOptionsMonitor<T>>;
+}
+
+/**
+ * Gets the service identifier of the scoped snapshot of configured options
+ *
+ * Calling this function with the same options identifier always returns the same identifier.
+ *
+ * @template T - The type of the options
+ * @param optionsType - The service identifier the options are injected with
+ * @returns The service identifier of the options snapshot
+ *
+ * @example
+ * ```typescript
+ * class RequestHandler {
+ *   constructor(
+ *     @inject(optionsSnapshotOf(featureOptionsIdentifier)) snapshot: IOptionsSnapshot<FeatureOptions>,
+ *   ) {}
+ * }
+ * ```
+ */
+export function optionsSnapshotOf<T>(
+  optionsType: ServiceIdentifier<T>,
+): ServiceIdentifier<IOptionsSnapshot<T>> {
+  return optionsSnapshots(optionsType) as ServiceIdentifier<IOptionsSnapshot<T>>;
+}
+
+/**
+ * The service identifier hosted services are registered under and started by the host
+ */
+export const hostedServiceIdentifier = createServiceIdentifier<IHostedService>('IHostedService');
+
+/**
+ * Interface for a collection of service descriptors that can be used to build a service provider
+ */
+export interface IServiceCollection {
+  /**
+   * Registers a class with the lifetime given by its `@injectable()` decorator, or as transient
+   *
+   * @template T - The type of the service
+   * @param serviceType - The service identifier
+   * @param implementationType - The implementation class
+   * @returns The service collection for method chaining
+   */
+  add<T>(serviceType: ServiceIdentifier<T>, implementationType: Constructor<T>): IServiceCollection;
+
+  /**
+   * Registers a class as its own service, under `serviceIdentifierOf(implementationType)`, with the
+   * lifetime given by its `@injectable()` decorator, or as transient
+   *
+   * @template T - The type of the service
+   * @param implementationType - The implementation class
+   * @returns The service collection for method chaining
+   */
+  add<T>(implementationType: Constructor<T>): IServiceCollection;
+
+  /**
+   * Registers a singleton service with the collection
+   *
+   * @template T - The type of the service
+   * @param serviceType - The service identifier
+   * @param implementationType - The implementation class
+   * @param options - Optional settings for the singleton registration
+   * @returns The service collection for method chaining
+   */
+  addSingleton<T>(
+    serviceType: ServiceIdentifier<T>,
+    implementationType: Constructor<T>,
+    options?: SingletonOptions,
+  ): IServiceCollection;
+
+  /**
+   * Registers a singleton service with the services to inject into its constructor parameters
+   *
+   * @template T - The type of the service
+   * @param serviceType - The service identifier
+   * @param implementationType - The implementation class
+   * @param dependencies - The service identifiers to inject, in constructor parameter order
+   * @param options - Optional settings for the singleton registration
+   * @returns The service collection for method chaining
+   */
+  addSingleton<T>(
+    serviceType: ServiceIdentifier<T>,
+    implementationType: Constructor<T>,
+    dependencies: readonly ServiceIdentifier<unknown>[],
+    options?: SingletonOptions,
+  ): IServiceCollection;
+
+  /**
+   * Registers a singleton service with a factory function
+   *
+   * @template T - The type of the service
+   * @param serviceType - The service identifier
+   * @param factory - A factory function that creates the service instance
+   * @param options - Optional settings for the singleton registration
+   * @returns The service collection for method chaining
+   */
+  addSingleton<T>(
+    serviceType: ServiceIdentifier<T>,
+    factory: ServiceFactory<T>,
+    options?: SingletonOptions,
+  ): IServiceCollection;
+
+  /**
+   * Registers a scoped service with the collection
+   *
+   * @template T - The type of the service
+   * @param serviceType - The service identifier
+   * @param implementationType - The implementation class
+   * @returns The service collection for method chaining
+   */
+  addScoped<T>(
+    serviceType: ServiceIdentifier<T>,
+    implementationType: Constructor<T>,
+  ): IServiceCollection;
+
+  /**
+   * Registers a scoped service with the services to inject into its constructor parameters
+   *
+   * @template T - The type of the service
+   * @param serviceType - The service identifier
+   * @param implementationType - The implementation class
+   * @param dependencies - The service identifiers to inject, in constructor parameter order
+   * @returns The service collection for method chaining
+   */
+  addScoped<T>(
+    serviceType: ServiceIdentifier<T>,
+    implementationType: Constructor<T>,
+    dependencies: readonly ServiceIdentifier<unknown>[],
+  ): IServiceCollection;
+
+  /**
+   * Registers a scoped service with a factory function
+   *
+   * @template T - The type of the service
+   * @param serviceType - The service identifier
+   * @param factory - A factory function that creates the service instance
+   * @returns The service collection for method chaining
+   */
+  addScoped<T>(serviceType: ServiceIdentifier<T>, factory: ServiceFactory<T>): IServiceCollection;
+
+  /**
+   * Registers a transient service with the collection
+   *
+   * @template T - The type of the service
+   * @param serviceType - The service identifier
+   * @param implementationType - The implementation class
+   * @returns The service collection for method chaining
+   */
+  addTransient<T>(
+    serviceType: ServiceIdentifier<T>,
+    implementationType: Constructor<T>,
+  ): IServiceCollection;
+
+  /**
+   * Registers a transient service with the services to inject into its constructor parameters
+   *
+   * @template T - The type of the service
+   * @param serviceType - The service identifier
+   * @param implementationType - The implementation class
+   * @param dependencies - The service identifiers to inject, in constructor parameter order
+   * @returns The service collection for method chaining
+   */
+  addTransient<T>(
+    serviceType: ServiceIdentifier<T>,
+    implementationType: Constructor<T>,
+    dependencies: readonly ServiceIdentifier<unknown>[],
+  ): IServiceCollection;
+
+  /**
+   * Registers a transient service with a factory function
+   *
+   * @template T - The type of the service
+   * @param serviceType - The service identifier
+   * @param factory - A factory function that creates the service instance
+   * @returns The service collection for method chaining
+   */
+  addTransient<T>(
+    serviceType: ServiceIdentifier<T>,
+    factory: ServiceFactory<T>,
+  ): IServiceCollection;
+
+  /**
+   * Registers a singleton service with an asynchronous factory function
+   *
+   * @template T - The type of the service
+   * @param serviceType - The service identifier
+   * @param factory - An asynchronous factory function that creates the service instance
+   * @returns The service collection for method chaining
+   */
+  addSingletonAsync<T>(
+    serviceType: ServiceIdentifier<T>,
+    factory: AsyncServiceFactory<T>,
+  ): IServiceCollection;
+
+  /**
+   * Registers a scoped service with an asynchronous factory function
+   *
+   * @template T - The type of the service
+   * @param serviceType - The service identifier
+   * @param factory - An asynchronous factory function that creates the service instance
+   * @returns The service collection for method chaining
+   */
+  addScopedAsync<T>(
+    serviceType: ServiceIdentifier<T>,
+    factory: AsyncServiceFactory<T>,
+  ): IServiceCollection;
+
+  /**
+   * Registers a transient service with an asynchronous factory function
+   *
+   * @template T - The type of the service
+   * @param serviceType - The service identifier
+   * @param factory - An asynchronous factory function that creates the service instance
+   * @returns The service collection for method chaining
+   */
+  addTransientAsync<T>(
+    serviceType: ServiceIdentifier<T>,
+    factory: AsyncServiceFactory<T>,
+  ): IServiceCollection;
+
+  /**
+   * Registers a keyed singleton service with the collection
+   *
+   * @template T - The type of the service
+   * @param serviceType - The service identifier
+   * @param serviceKey - The key that distinguishes this implementation
+   * @param implementationOrFactory - The implementation class or a factory that receives the key
+   * @returns The service collection for method chaining
+   */
+  addKeyedSingleton<T>(
+    serviceType: ServiceIdentifier<T>,
+    serviceKey: ServiceKey,
+    implementationOrFactory: Constructor<T> | KeyedServiceFactory<T>,
+  ): IServiceCollection;
+
+  /**
+   * Registers a keyed scoped service with the collection
+   *
+   * @template T - The type of the service
+   * @param serviceType - The service identifier
+   * @param serviceKey - The key that distinguishes this implementation
+   * @param implementationOrFactory - The implementation class or a factory that receives the key
+   * @returns The service collection for method chaining
+   */
+  addKeyedScoped<T>(
+    serviceType: ServiceIdentifier<T>,
+    serviceKey: ServiceKey,
+    implementationOrFactory: Constructor<T> | KeyedServiceFactory<T>,
+  ): IServiceCollection;
 
   /**
-   * The implementation class constructor
+   * Registers a keyed transient service with the collection
+   *
+   * @template T - The type of the service
+   * @param serviceType - The service identifier
+   * @param serviceKey - The key that distinguishes this implementation
+   * @param implementationOrFactory - The implementation class or a factory that receives the key
+   * @returns The service collection for method chaining
    */
-  implementationType: Constructor<T>;
+  addKeyedTransient<T>(
+    serviceType: ServiceIdentifier<T>,
+    serviceKey: ServiceKey,
+    implementationOrFactory: Constructor<T> | KeyedServiceFactory<T>,
+  ): IServiceCollection;
 
   /**
-   * The service lifetime
+   * Registers a singleton service for every member of an identifier family
+   *
+   * @template TToken - The type of the tokens the family's members are derived from
+   * @template T - The type of the service
+   * @param family - The identifier family
+   * @param factory - A factory function that creates the service for a member's token
+   * @returns The service collection for method chaining
    */
-  lifetime: ServiceLifetime;
+  addSingletonOpen<TToken, T>(
+    family: ServiceIdentifierFamily<TToken, T>,
+    factory: OpenServiceFactory<TToken, T>,
+  ): IServiceCollection;
 
   /**
-   * Optional factory function to create the service instance
+   * Registers a scoped service for every member of an identifier family
+   *
+   * @template TToken - The type of the tokens the family's members are derived from
+   * @template T - The type of the service
+   * @param family - The identifier family
+   * @param factory - A factory function that creates the service for a member's token
+   * @returns The service collection for method chaining
    */
-  factory?: ServiceFactory<T>;
-};
+  addScopedOpen<TToken, T>(
+    family: ServiceIdentifierFamily<TToken, T>,
+    factory: OpenServiceFactory<TToken, T>,
+  ): IServiceCollection;
 
-/**
- * Creates a typed service identifier
- *
- * @template T - The type of the service
- * @returns A unique identifier for the service type
- *
- * @example
- * ```typescript
- * interface IUserService {
- *   getUserById(id: string): Promise<User>;
- * }
- *
- * const userServiceIdentifier = createServiceIdentifier<IUserService>();
- * ```
- */
-export function createServiceIdentifier<T>(): ServiceIdentifier<T> {
-  return Symbol() as ServiceIdentifier<T>;
-}
+  /**
+   * Registers a transient service for every member of an identifier family
+   *
+   * @template TToken - The type of the tokens the family's members are derived from
+   * @template T - The type of the service
+   * @param family - The identifier family
+   * @param factory - A factory function that creates the service for a member's token
+   * @returns The service collection for method chaining
+   */
+  addTransientOpen<TToken, T>(
+    family: ServiceIdentifierFamily<TToken, T>,
+    factory: OpenServiceFactory<TToken, T>,
+  ): IServiceCollection;
 
-/**
- * Interface for a collection of service descriptors that can be used to build a service provider
- */
-export interface IServiceCollection {
   /**
-   * Registers a singleton service with the collection
+   * Registers a singleton service with the collection if the service has not already been registered
    *
    * @template T - The type of the service
    * @param serviceType - The service identifier
    * @param implementationType - The implementation class
    * @returns The service collection for method chaining
    */
-  addSingleton<T>(
+  tryAddSingleton<T>(
     serviceType: ServiceIdentifier<T>,
     implementationType: Constructor<T>,
   ): IServiceCollection;
 
   /**
-   * Registers a singleton service with a factory function
+   * Registers a singleton service with a factory function if the service has not already been registered
    *
    * @template T - The type of the service
    * @param serviceType - The service identifier
    * @param factory - A factory function that creates the service instance
    * @returns The service collection for method chaining
    */
-  addSingleton<T>(
+  tryAddSingleton<T>(
     serviceType: ServiceIdentifier<T>,
     factory: ServiceFactory<T>,
   ): IServiceCollection;
 
   /**
-   * Registers a scoped service with the collection
+   * Registers a scoped service with the collection if the service has not already been registered
    *
    * @template T - The type of the service
    * @param serviceType - The service identifier
    * @param implementationType - The implementation class
    * @returns The service collection for method chaining
    */
-  addScoped<T>(
+  tryAddScoped<T>(
     serviceType: ServiceIdentifier<T>,
     implementationType: Constructor<T>,
   ): IServiceCollection;
 
   /**
-   * Registers a scoped service with a factory function
+   * Registers a scoped service with a factory function if the service has not already been registered
    *
    * @template T - The type of the service
    * @param serviceType - The service identifier
    * @param factory - A factory function that creates the service instance
    * @returns The service collection for method chaining
    */
-  addScoped<T>(serviceType: ServiceIdentifier<T>, factory: ServiceFactory<T>): IServiceCollection;
+  tryAddScoped<T>(
+    serviceType: ServiceIdentifier<T>,
+    factory: ServiceFactory<T>,
+  ): IServiceCollection;
 
   /**
-   * Registers a transient service with the collection
+   * Registers a transient service with the collection if the service has not already been registered
    *
    * @template T - The type of the service
    * @param serviceType - The service identifier
    * @param implementationType - The implementation class
    * @returns The service collection for method chaining
    */
-  addTransient<T>(
+  tryAddTransient<T>(
     serviceType: ServiceIdentifier<T>,
     implementationType: Constructor<T>,
   ): IServiceCollection;
 
   /**
-   * Registers a transient service with a factory function
+   * Registers a transient service with a factory function if the service has not already been registered
    *
    * @template T - The type of the service
    * @param serviceType - The service identifier
    * @param factory - A factory function that creates the service instance
    * @returns The service collection for method chaining
    */
-  addTransient<T>(
+  tryAddTransient<T>(
     serviceType: ServiceIdentifier<T>,
     factory: ServiceFactory<T>,
   ): IServiceCollection;
 
+  /**
+   * Wraps every registration of a service with a decorator function, keeping each registration's lifetime
+   *
+   * @template T - The type of the service
+   * @param serviceType - The service identifier
+   * @param decorator - A function that wraps the decorated service instance
+   * @param serviceKey - The key of the keyed registrations to decorate, if any
+   * @returns The service collection for method chaining
+   */
+  decorate<T>(
+    serviceType: ServiceIdentifier<T>,
+    decorator: ServiceDecorator<T>,
+    serviceKey?: ServiceKey,
+  ): IServiceCollection;
+
+  /**
+   * Wraps every registration of a service with a decorator class, keeping each registration's lifetime
+   *
+   * @template T - The type of the service
+   * @param serviceType - The service identifier
+   * @param decoratorType - A class that receives the decorated service through `@inject(serviceType)`
+   * @param serviceKey - The key of the keyed registrations to decorate, if any
+   * @returns The service collection for method chaining
+   */
+  decorate<T>(
+    serviceType: ServiceIdentifier<T>,
+    decoratorType: Constructor<T>,
+    serviceKey?: ServiceKey,
+  ): IServiceCollection;
+
+  /**
+   * Adds a service descriptor unless one with the same service identifier and implementation
+   * type has already been registered
+   *
+   * @template T - The type of the service
+   * @param descriptor - The service descriptor to add
+   * @returns The service collection for method chaining
+   */
+  tryAddEnumerable<T>(descriptor: ServiceDescriptor<T>): IServiceCollection;
+
+  /**
+   * Replaces the first service descriptor registered for the descriptor's service identifier and key
+   *
+   * @template T - The type of the service
+   * @param descriptor - The service descriptor to register in place of the existing one
+   * @returns The service collection for method chaining
+   */
+  replace<T>(descriptor: ServiceDescriptor<T>): IServiceCollection;
+
+  /**
+   * Removes every service descriptor registered for a service identifier, either without a key or
+   * with the given key
+   *
+   * @template T - The type of the service
+   * @param serviceType - The service identifier
+   * @param serviceKey - The key of the keyed registrations to remove, if any
+   * @returns The service collection for method chaining
+   */
+  removeAll<T>(serviceType: ServiceIdentifier<T>, serviceKey?: ServiceKey): IServiceCollection;
+
+  /**
+   * Checks whether a service has been registered with the collection, either without a key or
+   * with the given key
+   *
+   * @template T - The type of the service
+   * @param serviceType - The service identifier
+   * @param serviceKey - The key of the keyed registrations to look for, if any
+   * @returns True if the service has been registered, false otherwise
+   */
+  contains<T>(serviceType: ServiceIdentifier<T>, serviceKey?: ServiceKey): boolean;
+
   /**
    * Builds a service provider from the registered services
    *
+   * @param options - Optional settings that control how the provider resolves services
    * @returns A new service provider instance
    */
-  build(): IServiceProvider;
+  build(options?: ServiceProviderOptions): IServiceProvider;
+
+  /**
+   * Configures an options object, either by merging values into it or with a callback that changes it
+   *
+   * @template T - The type of the options
+   * @param optionsType - The service identifier the options are injected with
+   * @param configure - The values to merge, such as defaults, or a callback that changes the options
+   * @returns The service collection for method chaining
+   */
+  configure<T extends object>(
+    optionsType: ServiceIdentifier<T>,
+    configure: DeepPartial<T> | ((options: T) => void),
+  ): IServiceCollection;
+
+  /**
+   * Binds an options object to the values loaded from a source, such as a JSON file or environment variables
+   *
+   * @template T - The type of the options
+   * @param optionsType - The service identifier the options are injected with
+   * @param source - The source to load the values from
+   * @param section - Optional dot-separated path of the section of the values to bind
+   * @returns The service collection for method chaining
+   */
+  bindOptions<T extends object>(
+    optionsType: ServiceIdentifier<T>,
+    source: OptionsSource,
+    section?: string,
+  ): IServiceCollection;
+
+  /**
+   * Configures an options object after every other configuration has been applied
+   *
+   * @template T - The type of the options
+   * @param optionsType - The service identifier the options are injected with
+   * @param configure - A callback that changes the options
+   * @returns The service collection for method chaining
+   */
+  postConfigure<T extends object>(
+    optionsType: ServiceIdentifier<T>,
+    configure: (options: T) => void,
+  ): IServiceCollection;
+
+  /**
+   * Adds a check that the configured options must pass when the provider is built
+   *
+   * @template T - The type of the options
+   * @param optionsType - The service identifier the options are injected with
+   * @param validate - Returns whether the options are valid
+   * @param message - The failure reported when the options are not valid
+   * @returns The service collection for method chaining
+   */
+  validateOptions<T extends object>(
+    optionsType: ServiceIdentifier<T>,
+    validate: (options: T) => boolean,
+    message: string,
+  ): IServiceCollection;
+
+  /**
+   * Registers a scoped service whose instance is provided to each scope rather than created by the container
+   *
+   * @template T - The type of the service
+   * @param serviceType - The service identifier
+   * @returns The service collection for method chaining
+   */
+  addScopedPlaceholder<T>(serviceType: ServiceIdentifier<T>): IServiceCollection;
+
+  /**
+   * Registers a singleton service that the host starts and stops with the application
+   *
+   * @template T - The type of the hosted service
+   * @param implementationType - The hosted service class
+   * @param dependencies - Optional identifiers of the services to inject into each constructor parameter
+   * @returns The service collection for method chaining
+   */
+  addHostedService<T extends IHostedService>(
+    implementationType: Constructor<T>,
+    dependencies?: readonly ServiceIdentifier<unknown>[],
+  ): IServiceCollection;
 }
 
 /**
@@ -175,17 +1183,126 @@ export interface IServiceProvider {
    */
   getService<T>(serviceType: ServiceIdentifier<T>): T;
 
+  /**
+   * Gets a keyed service instance by its service identifier and key
+   *
+   * @template T - The type of the service to resolve
+   * @param serviceType - The service identifier
+   * @param serviceKey - The key the service was registered with
+   * @returns The resolved service instance
+   */
+  getKeyedService<T>(serviceType: ServiceIdentifier<T>, serviceKey: ServiceKey): T;
+
+  /**
+   * Gets a service instance by its service identifier, awaiting any asynchronous initialization
+   *
+   * @template T - The type of the service to resolve
+   * @param serviceType - The service identifier
+   * @returns A promise that resolves to the initialized service instance
+   */
+  getServiceAsync<T>(serviceType: ServiceIdentifier<T>): Promise<T>;
+
+  /**
+   * Gets a service instance by its service identifier if the service is registered
+   *
+   * @template T - The type of the service to resolve
+   * @param serviceType - The service identifier
+   * @returns The resolved service instance, or undefined if the service is not registered
+   */
+  tryGetService<T>(serviceType: ServiceIdentifier<T>): T | undefined;
+
+  /**
+   * Gets every registered implementation of a service, in registration order
+   *
+   * @template T - The type of the services to resolve
+   * @param serviceType - The service identifier
+   * @returns The resolved service instances, or an empty array if none are registered
+   */
+  getServices<T>(serviceType: ServiceIdentifier<T>): T[];
+
+  /**
+   * Gets every registered implementation of a service, in registration order, awaiting any
+   * asynchronous initialization
+   *
+   * @template T - The type of the services to resolve
+   * @param serviceType - The service identifier
+   * @returns A promise that resolves to the initialized service instances, or an empty array if none are registered
+   */
+  getServicesAsync<T>(serviceType: ServiceIdentifier<T>): Promise<T[]>;
+
   /**
    * Creates a new scope for scoped services
    *
+   * @param options - Optional settings, such as the values to provide to the scope
    * @returns A new service scope
    */
-  createScope(): IServiceScope;
+  createScope(options?: ScopeOptions): IServiceScope;
+
+  /**
+   * Creates an instance of a class, filling the constructor parameters without an injected service
+   * from the given arguments and the others from the container
+   *
+   * @template T - The type of the instance to create
+   * @param ctor - The class to create an instance of
+   * @param args - The arguments for the constructor parameters without an injected service, in order
+   * @returns A new instance of the class
+   */
+  createInstance<T>(ctor: Constructor<T>, ...args: unknown[]): T;
+
+  /**
+   * Creates a function that creates instances of a class like `createInstance()`, inspecting its
+   * constructor parameters only once
+   *
+   * @template T - The type of the instances to create
+   * @template TArgs - The types of the arguments for the constructor parameters without an injected service
+   * @param ctor - The class to create instances of
+   * @returns A function that creates a new instance of the class from the given arguments
+   */
+  createFactory<T, TArgs extends unknown[] = unknown[]>(
+    ctor: Constructor<T>,
+  ): (...args: TArgs) => T;
+
+  /**
+   * Provides the instance of a scoped service for this provider's scope
+   *
+   * @template T - The type of the service
+   * @param serviceType - The service identifier of a scoped service or scoped placeholder
+   * @param value - The instance to resolve the service to within the scope
+   */
+  provide<T>(serviceType: ServiceIdentifier<T>, value: T): void;
+
+  /**
+   * Creates a child container that inherits the registrations and singletons of this provider's
+   * container and can add or override registrations of its own
+   *
+   * @param configure - Registers the services of the child container
+   * @returns The root provider of the child container, which owns the singletons registered with it
+   */
+  createChildContainer(configure: (services: IServiceCollection) => void): IServiceProvider;
 
   /**
-   * Disposes the service provider and clears any scoped service instances
+   * Disposes the service provider and every disposable service instance it created
    */
   dispose(): void;
+
+  /**
+   * Disposes the service provider when used with a `using` declaration
+   */
+  [Symbol.dispose](): void;
+
+  /**
+   * Asynchronously disposes the service provider and every disposable service instance it created
+   *
+   * @returns A promise that resolves once every instance has been disposed
+   */
+  disposeAsync(): Promise<void>;
+
+  /**
+   * Asynchronously disposes the service provider when used with an `await using` declaration
+   *
+   * @returns A promise that resolves once every instance has been disposed
+   */
+  [Symbol.asyncDispose](): Promise<void>;
 }
 
 /**
@@ -198,7 +1315,101 @@ export interface IServiceScope {
   serviceProvider: IServiceProvider;
 
   /**
-   * Disposes the scope and clears any scoped service instances
+   * Disposes the scope and every disposable service instance created within it
    */
   dispose(): void;
+
+  /**
+   * Disposes the scope when used with a `using` declaration
+   */
+  [Symbol.dispose](): void;
+
+  /**
+   * Asynchronously disposes the scope and every disposable service instance created within it
+   *
+   * @returns A promise that resolves once every instance has been disposed
+   */
+  disposeAsync(): Promise<void>;
+
+  /**
+   * Asynchronously disposes the scope when used with an `await using` declaration
+   *
+   * @returns A promise that resolves once every instance has been disposed
+   */
+  [Symbol.asyncDispose](): Promise<void>;
+}
+
+/**
+ * Interface for a service that is started when the host starts and stopped when it shuts down
+ */
+export interface IHostedService {
+  /**
+   * Starts the service
+   *
+   * @param signal - Aborted if the host is stopped before the service has started
+   * @returns A promise that resolves once the service has started
+   */
+  startAsync(signal: AbortSignal): Promise<void>;
+
+  /**
+   * Stops the service
+   *
+   * @param signal - Aborted when the shutdown timeout of the host elapses
+   * @returns A promise that resolves once the service has stopped
+   */
+  stopAsync(signal: AbortSignal): Promise<void>;
+}
+
+/**
+ * Options that control how a host resolves, starts and stops its services
+ */
+export type HostOptions = ServiceProviderOptions & {
+  /**
+   * The time in milliseconds that stopping the hosted services and disposing the services may take
+   * before the host stops waiting for them. Defaults to 30 seconds
+   */
+  shutdownTimeout?: number;
+
+  /**
+   * Whether `runAsync()` stops the host when the process receives SIGINT or SIGTERM. Defaults to true
+   */
+  handleSignals?: boolean;
+};
+
+/**
+ * Interface for an application host that owns a service provider and runs its hosted services
+ */
+export interface IHost {
+  /**
+   * The root service provider of the application
+   */
+  readonly services: IServiceProvider;
+
+  /**
+   * Starts every hosted service, one at a time in registration order
+   *
+   * @returns A promise that resolves once every hosted service has started
+   */
+  startAsync(): Promise<void>;
+
+  /**
+   * Stops the started hosted services in the reverse order they were started, then disposes the services
+   *
+   * @returns A promise that resolves once the host has stopped
+   */
+  stopAsync(): Promise<void>;
+
+  /**
+   * Starts the host and waits until it is stopped, either by `stopAsync()` or by a shutdown signal
+   *
+   * @returns A promise that resolves once the host has stopped
+   */
+  runAsync(): Promise<void>;
+
+  /**
+   * Stops the host when used with an `await using` declaration
+   *
+   * @returns A promise that resolves once the host has stopped
+   */
+  [Symbol.asyncDispose](): Promise<void>;
 }
@@ -0,0 +1,38 @@
+import { createServiceIdentifier, inject, injectable, postConstruct } from '../../src';
+
+// Compiled with standard decorators, see vitest.config.ts
+
+export interface IClock {
+  now(): number;
+}
+
+export interface IAuditLog {
+  record(message: string): void;
+}
+
+export const clockIdentifier = createServiceIdentifier<IClock>('IClock');
+export const auditLogIdentifier = createServiceIdentifier<IAuditLog>('IAuditLog');
+export const titleIdentifier = createServiceIdentifier<string>('Title');
+
+@injectable({ deps: [titleIdentifier] })
+export class Report {
+  @inject(clockIdentifier) accessor clock: IClock | undefined;
+
+  @inject(clockIdentifier) fieldClock: IClock | undefined;
+
+  @inject(auditLogIdentifier, { optional: true }) accessor auditLog: IAuditLog | undefined;
+
+  ready = false;
+
+  constructor(public title: string) {}
+
+  @postConstruct()
+  init(): void {
+    this.ready = this.clock?.now() === 42 && this.fieldClock === this.clock;
+  }
+}
+
+@injectable()
+export class UnlistedDependencies {
+  constructor(public title: string) {}
+}
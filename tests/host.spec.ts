@@ -0,0 +1,243 @@
+import { setTimeout as delay } from 'node:timers/promises';
+import { describe, expect, it } from 'vitest';
+import {
+  BackgroundService,
+  createHost,
+  createServiceIdentifier,
+  HostBuilder,
+  inject,
+  ObjectDisposedError,
+  type IHostedService,
+} from '../src';
+
+describe('Host', () => {
+  it('should start hosted services in registration order and stop them in reverse order', async () => {
+    const events: string[] = [];
+    const eventsIdentifier = createServiceIdentifier<string[]>('Events');
+
+    class RecordingService implements IHostedService {
+      constructor(
+        private events: string[],
+        private name: string,
+      ) {}
+
+      async startAsync() {
+        this.events.push(`start ${this.name}`);
+      }
+
+      async stopAsync() {
+        this.events.push(`stop ${this.name}`);
+      }
+
+      dispose() {
+        this.events.push(`dispose ${this.name}`);
+      }
+    }
+
+    class Database extends RecordingService {
+      constructor(@inject(eventsIdentifier) events: string[]) {
+        super(events, 'database');
+      }
+    }
+
+    class Server extends RecordingService {
+      constructor(@inject(eventsIdentifier) events: string[]) {
+        super(events, 'server');
+      }
+    }
+
+    const builder = new HostBuilder().configureServices(services => {
+      services.addSingleton(eventsIdentifier, () => events);
+    });
+    builder.services.addHostedService(Database).addHostedService(Server);
+
+    const host = builder.build({ handleSignals: false });
+
+    await host.startAsync();
+    expect(events).toEqual(['start database', 'start server']);
+
+    await host.stopAsync();
+    expect(events).toEqual([
+      'start database',
+      'start server',
+      'stop server',
+      'stop database',
+      'dispose server',
+      'dispose database',
+    ]);
+  });
+
+  it('should resolve hosted services that need asynchronous initialization', async () => {
+    const events: string[] = [];
+    const connectionIdentifier = createServiceIdentifier<string>('IConnection');
+
+    class Consumer implements IHostedService {
+      constructor(@inject(connectionIdentifier) private connection: string) {}
+
+      async initAsync() {
+        events.push(`init ${this.connection}`);
+      }
+
+      async startAsync() {
+        events.push('start consumer');
+      }
+
+      async stopAsync() {}
+    }
+
+    const host = createHost(services =>
+      services
+        .addSingletonAsync(connectionIdentifier, async () => 'amqp://localhost')
+        .addHostedService(Consumer),
+    );
+
+    await host.startAsync();
+    await host.stopAsync();
+
+    expect(events).toEqual(['init amqp://localhost', 'start consumer']);
+  });
+
+  it('should abort the signal of background services when the host stops', async () => {
+    const ticks: number[] = [];
+
+    class Ticker extends BackgroundService {
+      protected async executeAsync(signal: AbortSignal) {
+        for (let tick = 0; !signal.aborted; tick++) {
+          ticks.push(tick);
+          await delay(5, undefined, { signal });
+        }
+      }
+    }
+
+    class FailingWorker extends BackgroundService {
+      protected async executeAsync() {
+        throw new Error('Queue unavailable');
+      }
+    }
+
+    const host = createHost(services => services.addHostedService(Ticker));
+
+    await host.startAsync();
+    await delay(20);
+    await host.stopAsync();
+
+    const stoppedAt = ticks.length;
+    await delay(20);
+
+    expect(stoppedAt).toBeGreaterThan(0);
+    expect(ticks).toHaveLength(stoppedAt);
+
+    const failingHost = createHost(services => services.addHostedService(FailingWorker));
+
+    await failingHost.startAsync();
+    await expect(failingHost.stopAsync()).rejects.toThrowError(AggregateError);
+    await expect(failingHost.stopAsync()).rejects.toMatchObject({
+      errors: [new Error('Queue unavailable')],
+    });
+  });
+
+  it('should stop waiting for hosted services once the shutdown timeout elapses', async () => {
+    let stopSignal: AbortSignal | undefined;
+
+    class StuckService implements IHostedService {
+      async startAsync() {}
+
+      stopAsync(signal: AbortSignal) {
+        stopSignal = signal;
+        return new Promise<void>(() => {});
+      }
+    }
+
+    const host = createHost(services => services.addHostedService(StuckService), {
+      shutdownTimeout: 20,
+    });
+
+    await host.startAsync();
+    await host.stopAsync();
+
+    expect(stopSignal?.aborted).toBe(true);
+  });
+
+  it('should stop waiting for a hosted service that does not finish starting once the shutdown timeout elapses', async () => {
+    const disposed: string[] = [];
+
+    class StuckService implements IHostedService {
+      startAsync() {
+        return new Promise<void>(() => {});
+      }
+
+      async stopAsync() {}
+
+      dispose() {
+        disposed.push('stuck');
+      }
+    }
+
+    const host = createHost(services => services.addHostedService(StuckService), {
+      shutdownTimeout: 20,
+    });
+
+    void host.startAsync();
+    await delay(5);
+    await host.stopAsync();
+
+    expect(disposed).toEqual(['stuck']);
+  });
+
+  it('should stop started services when a hosted service fails to start', async () => {
+    const events: string[] = [];
+
+    class Cache implements IHostedService {
+      async startAsync() {
+        events.push('start cache');
+      }
+
+      async stopAsync() {
+        events.push('stop cache');
+      }
+    }
+
+    class Broker implements IHostedService {
+      async startAsync() {
+        throw new Error('Connection refused');
+      }
+
+      async stopAsync() {
+        events.push('stop broker');
+      }
+    }
+
+    const host = createHost(services => services.addHostedService(Cache).addHostedService(Broker));
+
+    await expect(host.runAsync()).rejects.toThrowError('Connection refused');
+    expect(events).toEqual(['start cache', 'stop cache']);
+    expect(() => host.services.getServices(createServiceIdentifier())).toThrowError(
+      ObjectDisposedError,
+    );
+  });
+
+  it('should stop a running host when the process receives a shutdown signal', async () => {
+    const listenerCount = process.listenerCount('SIGTERM');
+    let stopped = false;
+
+    class Server implements IHostedService {
+      async startAsync() {}
+
+      async stopAsync() {
+        stopped = true;
+      }
+    }
+
+    const host = createHost(services => services.addHostedService(Server));
+    const running = host.runAsync();
+
+    await delay(10);
+    expect(process.listenerCount('SIGTERM')).toBe(listenerCount + 1);
+
+    process.emit('SIGTERM');
+    await running;
+
+    expect(stopped).toBe(true);
+    expect(process.listenerCount('SIGTERM')).toBe(listenerCount);
+  });
+});
@@ -1,5 +1,31 @@
-import { describe, expect, it } from 'vitest';
-import { createServiceIdentifier, ServiceCollection } from '../src';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  ContainerValidationError,
+  createServiceIdentifier,
+  createServiceIdentifierFamily,
+  environmentSource,
+  inject,
+  injectable,
+  injectKeyed,
+  injectLazy,
+  injectProperty,
+  jsonFileSource,
+  objectSource,
+  optionsMonitorOf,
+  optionsSnapshotOf,
+  OptionsValidationError,
+  ScopeValidationError,
+  ServiceCollection,
+  MissingInjectDecoratorError,
+  NotInjectableError,
+  serviceIdentifierOf,
+  ServiceNotRegisteredError,
+  type IOptionsMonitor,
+  type Lazy,
+} from '../src';
 
 describe('ServiceCollection', () => {
   it('should add a singleton service', () => {
@@ -122,4 +148,898 @@ describe('ServiceCollection', () => {
     expect(serviceInstance1).toBe(serviceInstance2);
     expect(serviceInstance1.dependency).toBe(serviceInstance2.dependency);
   });
+
+  it('should resolve the last registered implementation when a service is registered more than once', () => {
+    type IHandler = { name: string };
+    class FirstHandler implements IHandler {
+      name = 'first';
+    }
+    class SecondHandler implements IHandler {
+      name = 'second';
+    }
+    const handlerIdentifier = createServiceIdentifier<IHandler>();
+
+    const collection = new ServiceCollection();
+    collection.addSingleton(handlerIdentifier, FirstHandler);
+    collection.addTransient(handlerIdentifier, SecondHandler);
+
+    const provider = collection.build();
+
+    expect(provider.getService(handlerIdentifier).name).toBe('second');
+  });
+
+  it('should resolve every registered implementation in registration order respecting lifetimes', () => {
+    type IHandler = { name: string };
+    class FirstHandler implements IHandler {
+      name = 'first';
+    }
+    class SecondHandler implements IHandler {
+      name = 'second';
+    }
+    const handlerIdentifier = createServiceIdentifier<IHandler>();
+
+    const collection = new ServiceCollection();
+    collection.addSingleton(handlerIdentifier, FirstHandler);
+    collection.addScoped(handlerIdentifier, () => new SecondHandler());
+    collection.addTransient(handlerIdentifier, FirstHandler);
+
+    const provider = collection.build();
+    const scope1 = provider.createScope();
+    const scope2 = provider.createScope();
+
+    const handlers1 = scope1.serviceProvider.getServices(handlerIdentifier);
+    const handlers2 = scope1.serviceProvider.getServices(handlerIdentifier);
+    const handlers3 = scope2.serviceProvider.getServices(handlerIdentifier);
+
+    expect(handlers1.map(handler => handler.name)).toEqual(['first', 'second', 'first']);
+    expect(handlers1[0]).toBe(handlers3[0]);
+    expect(handlers1[1]).toBe(handlers2[1]);
+    expect(handlers1[1]).not.toBe(handlers3[1]);
+    expect(handlers1[2]).not.toBe(handlers2[2]);
+  });
+
+  it('should resolve an empty array when no implementations are registered', () => {
+    const handlerIdentifier = createServiceIdentifier();
+
+    const provider = new ServiceCollection().build();
+
+    expect(provider.getServices(handlerIdentifier)).toEqual([]);
+  });
+
+  it('should only add a service with tryAdd when it has not already been registered', () => {
+    type ILogger = { name: string };
+    class ConsoleLogger implements ILogger {
+      name = 'console';
+    }
+    class FileLogger implements ILogger {
+      name = 'file';
+    }
+    const loggerIdentifier = createServiceIdentifier<ILogger>();
+    const clockIdentifier = createServiceIdentifier<ILogger>();
+
+    const collection = new ServiceCollection();
+    collection.addSingleton(loggerIdentifier, FileLogger);
+    collection.tryAddSingleton(loggerIdentifier, ConsoleLogger);
+    collection.tryAddScoped(loggerIdentifier, ConsoleLogger);
+    collection.tryAddTransient(loggerIdentifier, () => new ConsoleLogger());
+    collection.tryAddTransient(clockIdentifier, () => new ConsoleLogger());
+
+    const provider = collection.build();
+
+    expect(provider.getServices(loggerIdentifier).map(logger => logger.name)).toEqual(['file']);
+    expect(provider.getService(clockIdentifier).name).toBe('console');
+  });
+
+  it('should skip an enumerable registration whose implementation type is already registered', () => {
+    type IMiddleware = object;
+    class LoggingMiddleware implements IMiddleware {}
+    class AuthMiddleware implements IMiddleware {}
+    const middlewareIdentifier = createServiceIdentifier<IMiddleware>();
+
+    const collection = new ServiceCollection();
+    collection.tryAddEnumerable({
+      serviceType: middlewareIdentifier,
+      implementationType: LoggingMiddleware,
+      lifetime: 'singleton',
+    });
+    collection.tryAddEnumerable({
+      serviceType: middlewareIdentifier,
+      implementationType: AuthMiddleware,
+      lifetime: 'singleton',
+    });
+    collection.tryAddEnumerable({
+      serviceType: middlewareIdentifier,
+      implementationType: LoggingMiddleware,
+      lifetime: 'transient',
+    });
+
+    const middlewares = collection.build().getServices(middlewareIdentifier);
+
+    expect(middlewares).toHaveLength(2);
+    expect(middlewares[0]).toBeInstanceOf(LoggingMiddleware);
+    expect(middlewares[1]).toBeInstanceOf(AuthMiddleware);
+  });
+
+  it('should throw when adding a factory registration as an enumerable service', () => {
+    const serviceIdentifier = createServiceIdentifier<object>();
+
+    const collection = new ServiceCollection();
+
+    expect(() =>
+      collection.tryAddEnumerable({
+        serviceType: serviceIdentifier,
+        implementationType: Object,
+        lifetime: 'singleton',
+        factory: () => ({}),
+      }),
+    ).toThrowError();
+  });
+
+  it('should replace the first registration of a service', () => {
+    type ILogger = { name: string };
+    class ConsoleLogger implements ILogger {
+      name = 'console';
+    }
+    class FileLogger implements ILogger {
+      name = 'file';
+    }
+    class MemoryLogger implements ILogger {
+      name = 'memory';
+    }
+    const loggerIdentifier = createServiceIdentifier<ILogger>();
+
+    const collection = new ServiceCollection();
+    collection.addSingleton(loggerIdentifier, ConsoleLogger);
+    collection.addSingleton(loggerIdentifier, FileLogger);
+    collection.replace({
+      serviceType: loggerIdentifier,
+      implementationType: MemoryLogger,
+      lifetime: 'singleton',
+    });
+
+    const loggers = collection.build().getServices(loggerIdentifier);
+
+    expect(loggers.map(logger => logger.name)).toEqual(['file', 'memory']);
+  });
+
+  it('should remove every registration of a service', () => {
+    class TestService {}
+    const serviceIdentifier = createServiceIdentifier<TestService>();
+
+    const collection = new ServiceCollection();
+    collection.addSingleton(serviceIdentifier, TestService);
+    collection.addTransient(serviceIdentifier, TestService);
+
+    expect(collection.contains(serviceIdentifier)).toBe(true);
+
+    collection.removeAll(serviceIdentifier);
+
+    expect(collection.contains(serviceIdentifier)).toBe(false);
+    expect(collection.build().getServices(serviceIdentifier)).toEqual([]);
+  });
+
+  it('should only inspect, replace, decorate and remove keyed registrations when given their key', () => {
+    type IStorage = { name: string };
+    const storageIdentifier = createServiceIdentifier<IStorage>('IStorage');
+
+    const collection = new ServiceCollection()
+      .addKeyedSingleton(storageIdentifier, 's3', () => ({ name: 's3' }))
+      .addKeyedSingleton(storageIdentifier, 'local', () => ({ name: 'local' }));
+
+    expect(collection.contains(storageIdentifier)).toBe(false);
+    expect(collection.contains(storageIdentifier, 's3')).toBe(true);
+    expect(() => collection.decorate(storageIdentifier, inner => inner)).toThrowError(
+      "Cannot decorate service 'IStorage' because it is not registered.",
+    );
+
+    collection
+      .replace({
+        serviceType: storageIdentifier,
+        implementationType: Object,
+        lifetime: 'singleton',
+        serviceKey: 'local',
+        factory: () => ({ name: 'disk' }),
+      })
+      .decorate(storageIdentifier, inner => ({ name: `encrypted ${inner.name}` }), 'local')
+      .removeAll(storageIdentifier)
+      .removeAll(storageIdentifier, 's3');
+
+    const provider = collection.build();
+
+    expect(collection.contains(storageIdentifier, 's3')).toBe(false);
+    expect(() => provider.getKeyedService(storageIdentifier, 's3')).toThrowError(
+      ServiceNotRegisteredError,
+    );
+    expect(provider.getKeyedService(storageIdentifier, 'local').name).toBe('encrypted disk');
+    expect(provider.getServices(storageIdentifier)).toEqual([]);
+  });
+
+  it('should build a provider that validates scopes when requested', () => {
+    class TestService {}
+    const serviceIdentifier = createServiceIdentifier<TestService>();
+
+    const collection = new ServiceCollection();
+    collection.addScoped(serviceIdentifier, TestService);
+
+    const provider = collection.build({ validateScopes: true });
+
+    expect(() => provider.getService(serviceIdentifier)).toThrowError(ScopeValidationError);
+    expect(provider.createScope().serviceProvider.getService(serviceIdentifier)).toBeInstanceOf(
+      TestService,
+    );
+  });
+
+  it('should report every problem in the dependency graph when validating on build', () => {
+    const loggerIdentifier = createServiceIdentifier<object>('ILogger');
+    const unitOfWorkIdentifier = createServiceIdentifier<object>('IUnitOfWork');
+    const cacheIdentifier = createServiceIdentifier<object>('ICache');
+    const aIdentifier = createServiceIdentifier<object>('IA');
+    const bIdentifier = createServiceIdentifier<object>('IB');
+    const undecoratedIdentifier = createServiceIdentifier<object>('IUndecorated');
+    const constructed = vi.fn();
+
+    class Dependency {}
+
+    class Service {
+      constructor(@inject(loggerIdentifier) public logger: object) {
+        constructed();
+      }
+    }
+
+    class Cache {
+      constructor(@inject(unitOfWorkIdentifier) public unitOfWork: object) {
+        constructed();
+      }
+    }
+
+    class A {
+      constructor(@inject(bIdentifier) public b: object) {}
+    }
+
+    class B {
+      constructor(@inject(aIdentifier) public a: object) {}
+    }
+
+    @injectable()
+    class Undecorated {
+      constructor(public dependency: Dependency) {}
+    }
+
+    const collection = new ServiceCollection();
+    collection.addSingleton(createServiceIdentifier<Service>('IService'), Service);
+    collection.addScoped(unitOfWorkIdentifier, Dependency);
+    collection.addSingleton(cacheIdentifier, Cache);
+    collection.addTransient(aIdentifier, A);
+    collection.addTransient(bIdentifier, B);
+    collection.addTransient(undecoratedIdentifier, Undecorated);
+
+    const error = (() => {
+      try {
+        collection.build({ validateOnBuild: true });
+      } catch (e) {
+        return e;
+      }
+    })();
+
+    expect(constructed).not.toHaveBeenCalled();
+    expect(error).toBeInstanceOf(ContainerValidationError);
+
+    const messages = (error as ContainerValidationError).errors.map(
+      (inner: Error) => inner.message,
+    );
+
+    expect(messages).toEqual([
+      "Service 'ILogger' is not registered. It was requested by parameter 0 of 'Service'. Resolution path: IService -> ILogger.",
+      "Parameter 0 of 'Undecorated' has no @inject decorator, so the service to inject cannot be determined. Resolution path: IUndecorated.",
+      'A circular dependency was detected: IA -> IB -> IA.',
+      "Cannot consume scoped service 'IUnitOfWork' from singleton 'ICache'. Captive dependency chain: ICache -> IUnitOfWork.",
+    ]);
+  });
+
+  it('should build a provider when validating on build finds no problems', () => {
+    const loggerIdentifier = createServiceIdentifier<object>('ILogger');
+    const telemetryIdentifier = createServiceIdentifier<object>('ITelemetry');
+    const serviceIdentifier = createServiceIdentifier<Service>('IService');
+
+    class Logger {}
+
+    class Service {
+      constructor(
+        @inject(loggerIdentifier) public logger: object,
+        @inject(telemetryIdentifier, { optional: true }) public telemetry?: object,
+      ) {}
+    }
+
+    const collection = new ServiceCollection();
+    collection.addSingleton(loggerIdentifier, Logger);
+    collection.addScoped(serviceIdentifier, Service);
+
+    const provider = collection.build({ validateOnBuild: true });
+
+    expect(provider.createScope().serviceProvider.getService(serviceIdentifier).logger).toBe(
+      provider.getService(loggerIdentifier),
+    );
+  });
+
+  it('should add a singleton service that is created when the provider is built', () => {
+    const constructed = vi.fn();
+    class TestService {
+      constructor() {
+        constructed();
+      }
+    }
+    const serviceIdentifier = createServiceIdentifier<TestService>();
+
+    const collection = new ServiceCollection();
+    collection.addSingleton(serviceIdentifier, TestService, { eager: true });
+
+    const provider = collection.build();
+
+    expect(constructed).toHaveBeenCalledTimes(1);
+
+    provider.getService(serviceIdentifier);
+
+    expect(constructed).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report missing keyed dependencies when validating on build', () => {
+    const storageIdentifier = createServiceIdentifier<object>('IStorage');
+
+    class BackupJob {
+      constructor(@injectKeyed(storageIdentifier, 's3') public storage: object) {}
+    }
+
+    const services = new ServiceCollection()
+      .addKeyedSingleton(storageIdentifier, 'local', () => ({}))
+      .addSingleton(createServiceIdentifier<BackupJob>(), BackupJob);
+
+    const error = (() => {
+      try {
+        services.build({ validateOnBuild: true });
+      } catch (error) {
+        return error as ContainerValidationError;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(ContainerValidationError);
+    expect(error?.errors).toHaveLength(1);
+    expect(error?.errors[0]).toBeInstanceOf(ServiceNotRegisteredError);
+    expect(error?.errors[0].serviceName).toBe('IStorage[s3]');
+  });
+
+  it('should satisfy every member of an identifier family with one open registration', () => {
+    class User {}
+    class Order {}
+
+    class Repository<T> {
+      constructor(public entity: new () => T) {}
+    }
+
+    const repositoryOf = createServiceIdentifierFamily<Repository<unknown>>('IRepository');
+    const factory = vi.fn((_, entity: new () => unknown) => new Repository(entity));
+
+    const provider = new ServiceCollection().addScopedOpen(repositoryOf, factory).build();
+    const scope1 = provider.createScope();
+    const scope2 = provider.createScope();
+
+    const userRepository = scope1.serviceProvider.getService(repositoryOf<Repository<User>>(User));
+
+    expect(repositoryOf(User)).toBe(repositoryOf(User));
+    expect(userRepository.entity).toBe(User);
+    expect(scope1.serviceProvider.getService(repositoryOf(User))).toBe(userRepository);
+    expect(scope1.serviceProvider.getService(repositoryOf(Order)).entity).toBe(Order);
+    expect(scope2.serviceProvider.getService(repositoryOf(User))).not.toBe(userRepository);
+    expect(factory).toHaveBeenCalledTimes(3);
+  });
+
+  it('should prefer explicit registrations of a family member over the open registration', () => {
+    class User {}
+    class Order {}
+
+    const repositoryOf = createServiceIdentifierFamily<{ name: string }>('IRepository');
+
+    const provider = new ServiceCollection()
+      .addSingletonOpen(repositoryOf, (_, entity) => ({ name: `open ${entity.name}` }))
+      .addSingleton(repositoryOf(User), () => ({ name: 'explicit' }))
+      .build();
+
+    expect(provider.getService(repositoryOf(User)).name).toBe('explicit');
+    expect(provider.getService(repositoryOf(Order)).name).toBe('open Order');
+    expect(() => provider.getService(createServiceIdentifierFamily('IOther')(User))).toThrowError(
+      "Service 'IOther<User>' is not registered.",
+    );
+  });
+
+  it('should treat family members with an open registration as registered when validating on build', () => {
+    class User {}
+
+    const repositoryOf = createServiceIdentifierFamily<object>('IRepository');
+
+    class UserService {
+      constructor(@inject(repositoryOf(User)) public repository: object) {}
+    }
+
+    const services = new ServiceCollection()
+      .addTransientOpen(repositoryOf, () => ({}))
+      .addTransient(createServiceIdentifier<UserService>(), UserService);
+
+    expect(() => services.build({ validateOnBuild: true })).not.toThrowError();
+  });
+
+  it('should apply decorators in registration order while keeping the lifetime of the decorated service', () => {
+    interface IGreeter {
+      greet(): string;
+    }
+
+    const greeterIdentifier = createServiceIdentifier<IGreeter>('IGreeter');
+
+    const provider = new ServiceCollection()
+      .addScoped(greeterIdentifier, () => ({ greet: () => 'hello' }))
+      .decorate(greeterIdentifier, inner => ({ greet: () => `[${inner.greet()}]` }))
+      .decorate(greeterIdentifier, inner => ({ greet: () => inner.greet().toUpperCase() }))
+      .build();
+
+    const scope1 = provider.createScope();
+    const scope2 = provider.createScope();
+    const greeter = scope1.serviceProvider.getService(greeterIdentifier);
+
+    expect(greeter.greet()).toBe('[HELLO]');
+    expect(scope1.serviceProvider.getService(greeterIdentifier)).toBe(greeter);
+    expect(scope2.serviceProvider.getService(greeterIdentifier)).not.toBe(greeter);
+  });
+
+  it('should inject the decorated service into a decorator class', () => {
+    interface IRepository {
+      find(): string;
+    }
+
+    const repositoryIdentifier = createServiceIdentifier<IRepository>('IRepository');
+    const prefixIdentifier = createServiceIdentifier<string>('IPrefix');
+
+    class Repository implements IRepository {
+      find() {
+        return 'value';
+      }
+    }
+
+    class LoggingRepository implements IRepository {
+      constructor(
+        @inject(repositoryIdentifier) private inner: IRepository,
+        @inject(prefixIdentifier) private prefix: string,
+      ) {}
+
+      find() {
+        return `${this.prefix}${this.inner.find()}`;
+      }
+    }
+
+    const provider = new ServiceCollection()
+      .addSingleton(prefixIdentifier, () => 'logged ')
+      .addSingleton(repositoryIdentifier, Repository)
+      .decorate(repositoryIdentifier, LoggingRepository)
+      .build({ validateOnBuild: true });
+
+    const repository = provider.getService(repositoryIdentifier);
+
+    expect(repository).toBeInstanceOf(LoggingRepository);
+    expect(repository.find()).toBe('logged value');
+    expect(provider.getService(repositoryIdentifier)).toBe(repository);
+  });
+
+  it('should stack decorator classes and functions in registration order', () => {
+    interface IRepository {
+      find(): string;
+    }
+
+    const repositoryIdentifier = createServiceIdentifier<IRepository>('IRepository');
+
+    class Repository implements IRepository {
+      find() {
+        return 'value';
+      }
+    }
+
+    class LoggingRepository implements IRepository {
+      constructor(@inject(repositoryIdentifier) private inner: IRepository) {}
+
+      find() {
+        return `logged(${this.inner.find()})`;
+      }
+    }
+
+    class CachingRepository implements IRepository {
+      constructor(@inject(repositoryIdentifier) private inner: IRepository) {}
+
+      find() {
+        return `cached(${this.inner.find()})`;
+      }
+    }
+
+    const provider = new ServiceCollection()
+      .addSingleton(repositoryIdentifier, Repository)
+      .decorate(repositoryIdentifier, LoggingRepository)
+      .decorate(repositoryIdentifier, CachingRepository)
+      .decorate(repositoryIdentifier, inner => ({ find: () => `timed(${inner.find()})` }))
+      .decorate(repositoryIdentifier, LoggingRepository)
+      .build({ validateOnBuild: true });
+
+    expect(provider.getService(repositoryIdentifier).find()).toBe(
+      'logged(timed(cached(logged(value))))',
+    );
+  });
+
+  it('should throw when decorating a service that is not registered', () => {
+    const serviceIdentifier = createServiceIdentifier<object>('IService');
+
+    expect(() => new ServiceCollection().decorate(serviceIdentifier, inner => inner)).toThrowError(
+      "Cannot decorate service 'IService' because it is not registered.",
+    );
+  });
+
+  it('should report missing property dependencies when validating on build', () => {
+    const loggerIdentifier = createServiceIdentifier<object>('ILogger');
+
+    class Service {
+      @injectProperty(loggerIdentifier) logger!: object;
+    }
+
+    const services = new ServiceCollection().addSingleton(
+      createServiceIdentifier<Service>('IService'),
+      Service,
+    );
+
+    expect(() => services.build({ validateOnBuild: true })).toThrowError(
+      "Service 'ILogger' is not registered. It was requested by 'Service'.",
+    );
+  });
+
+  it('should register a class with the lifetime given by its injectable decorator', () => {
+    @injectable({ lifetime: 'singleton' })
+    class Clock {}
+
+    @injectable()
+    class Request {
+      constructor(@inject(serviceIdentifierOf(Clock)) public clock: Clock) {}
+    }
+
+    const requestIdentifier = createServiceIdentifier<Request>('IRequest');
+
+    const provider = new ServiceCollection().add(Clock).add(requestIdentifier, Request).build();
+
+    const request1 = provider.getService(requestIdentifier);
+    const request2 = provider.getService(requestIdentifier);
+
+    expect(serviceIdentifierOf(Clock)).toBe(serviceIdentifierOf(Clock));
+    expect(request1).not.toBe(request2);
+    expect(request1.clock).toBe(request2.clock);
+    expect(request1.clock).toBe(provider.getService(serviceIdentifierOf(Clock)));
+  });
+
+  it('should refuse to construct classes that are not injectable in strict mode', () => {
+    class Plain {}
+
+    @injectable()
+    class Marked {}
+
+    const plainIdentifier = createServiceIdentifier<Plain>('IPlain');
+    const markedIdentifier = createServiceIdentifier<Marked>('IMarked');
+
+    const services = new ServiceCollection()
+      .addTransient(plainIdentifier, Plain)
+      .addTransient(markedIdentifier, Marked);
+
+    expect(services.build().getService(plainIdentifier)).toBeInstanceOf(Plain);
+
+    const provider = services.build({ strict: true });
+
+    expect(provider.getService(markedIdentifier)).toBeInstanceOf(Marked);
+    expect(() => provider.getService(plainIdentifier)).toThrowError(NotInjectableError);
+    expect(() => services.build({ strict: true, validateOnBuild: true })).toThrowError(
+      "Class 'Plain' is not marked with @injectable(), so it cannot be constructed in strict mode.",
+    );
+  });
+
+  it('should detect constructor parameters without metadata in strict mode', () => {
+    @injectable()
+    class Service {
+      constructor(public dependency: object) {}
+    }
+
+    // Simulates a build that does not emit decorator metadata
+    Reflect.deleteMetadata('design:paramtypes', Service);
+
+    const serviceIdentifier = createServiceIdentifier<Service>('IService');
+    const services = new ServiceCollection().addTransient(serviceIdentifier, Service);
+
+    expect(services.build().getService(serviceIdentifier).dependency).toBeUndefined();
+    expect(() => services.build({ strict: true }).getService(serviceIdentifier)).toThrowError(
+      MissingInjectDecoratorError,
+    );
+  });
+
+  it('should inject dependencies listed at registration or on the class', () => {
+    interface ILogger {
+      log(message: string): void;
+    }
+
+    class Logger implements ILogger {
+      log(): void {}
+    }
+
+    const loggerIdentifier = createServiceIdentifier<ILogger>('ILogger');
+    const nameIdentifier = createServiceIdentifier<string>('Name');
+
+    class UserService {
+      constructor(
+        public logger: ILogger,
+        public name: string,
+      ) {}
+    }
+
+    class OrderService {
+      static inject = [loggerIdentifier];
+
+      constructor(public logger: ILogger) {}
+    }
+
+    const userServiceIdentifier = createServiceIdentifier<UserService>('IUserService');
+    const orderServiceIdentifier = createServiceIdentifier<OrderService>('IOrderService');
+
+    const provider = new ServiceCollection()
+      .addSingleton(loggerIdentifier, Logger, [])
+      .addSingleton(nameIdentifier, () => 'users')
+      .addSingleton(userServiceIdentifier, UserService, [loggerIdentifier, nameIdentifier], {
+        eager: true,
+      })
+      .addTransient(orderServiceIdentifier, OrderService)
+      .build({ strict: true, validateOnBuild: true });
+
+    const userService = provider.getService(userServiceIdentifier);
+
+    expect(userService.logger).toBe(provider.getService(loggerIdentifier));
+    expect(userService.name).toBe('users');
+    expect(provider.getService(orderServiceIdentifier).logger).toBe(userService.logger);
+  });
+
+  it('should validate explicitly listed dependencies on build', () => {
+    class Service {
+      constructor(public dependency: unknown) {}
+    }
+
+    const dependencyIdentifier = createServiceIdentifier('IDependency');
+    const serviceIdentifier = createServiceIdentifier<Service>('IService');
+
+    const services = new ServiceCollection().addScoped(serviceIdentifier, Service, [
+      dependencyIdentifier,
+    ]);
+
+    expect(() => services.build({ validateOnBuild: true })).toThrowError(
+      "Service 'IDependency' is not registered. It was requested by parameter 0 of 'Service'.",
+    );
+  });
+
+  it('should refuse standard decorators on private members', () => {
+    const decorate = () =>
+      inject(createServiceIdentifier('IClock'))(undefined, {
+        kind: 'field',
+        name: '#clock',
+        static: false,
+        private: true,
+        metadata: {},
+        addInitializer: () => {},
+      } as unknown as ClassFieldDecoratorContext);
+
+    expect(decorate).toThrowError(
+      "@inject() cannot be applied to static or private member '#clock'.",
+    );
+  });
+
+  it('should detect scoped services captured by lazy dependencies of singletons on build', () => {
+    class Session {}
+
+    const sessionIdentifier = createServiceIdentifier<Session>('ISession');
+    const cacheIdentifier = createServiceIdentifier<Cache>('ICache');
+
+    class Cache {
+      constructor(@injectLazy(sessionIdentifier) public session: Lazy<Session>) {}
+    }
+
+    const services = new ServiceCollection()
+      .addScoped(sessionIdentifier, Session)
+      .addSingleton(cacheIdentifier, Cache);
+
+    expect(() => services.build({ validateOnBuild: true })).toThrowError(
+      "Cannot consume scoped service 'ISession' from singleton 'ICache'.",
+    );
+  });
+
+  it('should inject options merged from defaults, sources and post-configuration', () => {
+    interface DatabaseOptions {
+      host: string;
+      port: number;
+      ssl: boolean;
+      replicas: string[];
+      connectionString?: string;
+    }
+
+    const databaseOptionsIdentifier = createServiceIdentifier<DatabaseOptions>('DatabaseOptions');
+
+    class Repository {
+      constructor(@inject(databaseOptionsIdentifier) public options: DatabaseOptions) {}
+    }
+
+    const directory = mkdtempSync(join(tmpdir(), 'netdi-'));
+    const settingsPath = join(directory, 'appsettings.json');
+    writeFileSync(settingsPath, JSON.stringify({ db: { host: 'db.internal', port: 6543 } }));
+
+    try {
+      const services = new ServiceCollection()
+        .configure(databaseOptionsIdentifier, {
+          host: 'localhost',
+          port: 5432,
+          ssl: false,
+          replicas: [],
+        })
+        .postConfigure<DatabaseOptions>(databaseOptionsIdentifier, options => {
+          options.connectionString = `postgres://${options.host}:${options.port}`;
+        })
+        .bindOptions(databaseOptionsIdentifier, jsonFileSource(settingsPath), 'db')
+        .bindOptions(
+          databaseOptionsIdentifier,
+          jsonFileSource(join(directory, 'missing.json'), { optional: true }),
+        )
+        .bindOptions(
+          databaseOptionsIdentifier,
+          environmentSource('APP', { APP__DB__PORT: '7000', APP__DB__SSL: 'true', OTHER: 'x' }),
+          'db',
+        )
+        .bindOptions(databaseOptionsIdentifier, objectSource({ replicas: ['replica-1'] }))
+        .addTransient(serviceIdentifierOf(Repository), Repository);
+
+      const { options } = services.build().getService(serviceIdentifierOf(Repository));
+
+      expect(options).toEqual({
+        host: 'db.internal',
+        port: 7000,
+        ssl: true,
+        replicas: ['replica-1'],
+        connectionString: 'postgres://db.internal:7000',
+      });
+      expect(Object.isFrozen(options)).toBe(true);
+      expect(Object.isFrozen(options.replicas)).toBe(true);
+      expect(() =>
+        new ServiceCollection()
+          .configure(databaseOptionsIdentifier, { port: 5432 })
+          .bindOptions(databaseOptionsIdentifier, environmentSource('APP', { APP__PORT: 'x' }))
+          .build(),
+      ).toThrowError("Cannot convert 'x' to a number for option 'port'.");
+    } finally {
+      rmSync(directory, { recursive: true });
+    }
+  });
+
+  it('should validate options when the provider is built', () => {
+    const serverOptionsIdentifier = createServiceIdentifier<{ port: number }>('ServerOptions');
+
+    const services = new ServiceCollection()
+      .configure(serverOptionsIdentifier, { port: 0 })
+      .validateOptions(
+        serverOptionsIdentifier,
+        options => options.port > 0,
+        'Port must be positive.',
+      )
+      .validateOptions(
+        serverOptionsIdentifier,
+        options => options.port < 65536,
+        'Port is too large.',
+      );
+
+    expect(() => services.build()).toThrowError(OptionsValidationError);
+    expect(() => services.build()).toThrowError(
+      "Options 'ServerOptions' are not valid: Port must be positive.",
+    );
+
+    services.configure(serverOptionsIdentifier, options => {
+      options.port = 8080;
+    });
+
+    expect(services.build().getService(serverOptionsIdentifier)).toEqual({ port: 8080 });
+  });
+
+  it('should reload monitored options when a watched file changes', async () => {
+    interface FeatureOptions {
+      enabled: boolean;
+      limit: number;
+    }
+
+    const featureOptionsIdentifier = createServiceIdentifier<FeatureOptions>('FeatureOptions');
+
+    const directory = mkdtempSync(join(tmpdir(), 'netdi-'));
+    const settingsPath = join(directory, 'appsettings.json');
+    writeFileSync(settingsPath, JSON.stringify({ features: { enabled: false } }));
+
+    try {
+      const provider = new ServiceCollection()
+        .configure(featureOptionsIdentifier, { enabled: true, limit: 10 })
+        .bindOptions(
+          featureOptionsIdentifier,
+          jsonFileSource(settingsPath, { reloadOnChange: true }),
+          'features',
+        )
+        .validateOptions(featureOptionsIdentifier, options => options.limit > 0, 'Limit too low.')
+        .build();
+
+      const monitor = provider.getService(optionsMonitorOf(featureOptionsIdentifier));
+      const scope = provider.createScope();
+      const snapshot = scope.serviceProvider.getService(
+        optionsSnapshotOf(featureOptionsIdentifier),
+      );
+
+      expect(monitor).toBe(provider.getService(optionsMonitorOf(featureOptionsIdentifier)));
+      expect(monitor.currentValue).toEqual({ enabled: false, limit: 10 });
+      expect(snapshot.value).toBe(monitor.currentValue);
+
+      const waitForChange = (monitor: IOptionsMonitor<FeatureOptions>) =>
+        new Promise<FeatureOptions>(resolve => {
+          const removeListener = monitor.onChange(options => {
+            removeListener();
+            resolve(options);
+          });
+        });
+
+      const changed = waitForChange(monitor);
+      writeFileSync(settingsPath, JSON.stringify({ features: { enabled: true, limit: 0 } }));
+      writeFileSync(settingsPath, JSON.stringify({ features: { enabled: true, limit: 25 } }));
+
+      expect(await changed).toEqual({ enabled: true, limit: 25 });
+      expect(monitor.currentValue).toEqual({ enabled: true, limit: 25 });
+      expect(Object.isFrozen(monitor.currentValue)).toBe(true);
+      expect(snapshot.value).toEqual({ enabled: false, limit: 10 });
+      expect(scope.serviceProvider.getService(optionsSnapshotOf(featureOptionsIdentifier))).toBe(
+        snapshot,
+      );
+      expect(
+        provider
+          .createScope()
+          .serviceProvider.getService(optionsSnapshotOf(featureOptionsIdentifier)).value,
+      ).toEqual({ enabled: true, limit: 25 });
+      expect(provider.getService(featureOptionsIdentifier)).toEqual({ enabled: false, limit: 10 });
+
+      const listener = vi.fn();
+      monitor.onChange(listener);
+      provider.dispose();
+      writeFileSync(settingsPath, JSON.stringify({ features: { enabled: false, limit: 5 } }));
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(monitor.currentValue).toEqual({ enabled: true, limit: 25 });
+    } finally {
+      rmSync(directory, { recursive: true });
+    }
+  });
+
+  it('should see changes made to a watched file before the options monitor is first resolved', () => {
+    const limitsIdentifier = createServiceIdentifier<{ limit: number }>('LimitOptions');
+
+    const directory = mkdtempSync(join(tmpdir(), 'netdi-'));
+    const settingsPath = join(directory, 'appsettings.json');
+    writeFileSync(settingsPath, JSON.stringify({ limit: 1 }));
+
+    try {
+      const provider = new ServiceCollection()
+        .bindOptions(limitsIdentifier, jsonFileSource(settingsPath, { reloadOnChange: true }))
+        .build();
+
+      writeFileSync(settingsPath, JSON.stringify({ limit: 2 }));
+
+      const monitor = provider.getService(optionsMonitorOf(limitsIdentifier));
+
+      expect(monitor.currentValue).toEqual({ limit: 2 });
+      expect(provider.getService(limitsIdentifier)).toEqual({ limit: 1 });
+
+      provider.dispose();
+    } finally {
+      rmSync(directory, { recursive: true });
+    }
+  });
 });
@@ -1,8 +1,42 @@
-import { describe, expect, it } from 'vitest';
-import { injectable, ServiceProvider } from '../src';
-import { createServiceIdentifier, ServiceLifetime } from '../src/types';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  AsyncResolutionRequiredError,
+  CircularDependencyError,
+  injectable,
+  injectAll,
+  injectFactory,
+  injectKeyed,
+  injectLazy,
+  injectProperty,
+  MissingInjectDecoratorError,
+  NotInjectableError,
+  ObjectDisposedError,
+  optional,
+  postConstruct,
+  ScopedValueNotProvidedError,
+  ScopeValidationError,
+  ServiceActivationError,
+  ServiceCollection,
+  serviceIdentifierOf,
+  ServiceNotRegisteredError,
+  ServiceProvider,
+} from '../src';
+import {
+  createServiceIdentifier,
+  createServiceIdentifierFamily,
+  Lazy,
+  ServiceDescriptor,
+  ServiceIdentifier,
+  ServiceLifetime,
+} from '../src/types';
 import { randomUUID } from 'crypto';
 import { inject } from '../src';
+import {
+  clockIdentifier,
+  Report,
+  titleIdentifier,
+  UnlistedDependencies,
+} from './fixtures/reports.standard';
 
 describe('ServiceProvider', () => {
   it('should throw an error when service is not registered', () => {
@@ -312,7 +346,7 @@ describe('ServiceProvider', () => {
     expect(service1).toBe(service2);
   });
 
-  it('should clear the scoped instances on dispose from provider', () => {
+  it('should throw when resolving from a disposed provider', () => {
     type IService = {
       id: string;
     };
@@ -340,16 +374,16 @@ describe('ServiceProvider', () => {
       ]),
     );
 
-    const initialService = serviceProvider.getService(serviceIdentifier);
+    serviceProvider.getService(serviceIdentifier);
 
     serviceProvider.dispose();
 
-    const newService = serviceProvider.getService(serviceIdentifier);
-
-    expect(initialService).not.toBe(newService);
+    expect(() => {
+      serviceProvider.getService(serviceIdentifier);
+    }).toThrowError(ObjectDisposedError);
   });
 
-  it('should clear the scoped instances on dispose from a scope', () => {
+  it('should throw when resolving from a disposed scope', () => {
     type IService = {
       id: string;
     };
@@ -379,13 +413,13 @@ describe('ServiceProvider', () => {
 
     const scope = serviceProvider.createScope();
 
-    const initialService = scope.serviceProvider.getService(serviceIdentifier);
+    scope.serviceProvider.getService(serviceIdentifier);
 
     scope.dispose();
 
-    const newService = scope.serviceProvider.getService(serviceIdentifier);
-
-    expect(initialService).not.toBe(newService);
+    expect(() => {
+      scope.serviceProvider.getService(serviceIdentifier);
+    }).toThrowError(ObjectDisposedError);
   });
 
   it('should not clear the scoped instances on dispose from a scope when the provider is disposed', () => {
@@ -463,10 +497,9 @@ describe('ServiceProvider', () => {
 
     scope1.dispose();
 
-    const newService1 = scope1.serviceProvider.getService(serviceIdentifier);
     const newService2 = scope2.serviceProvider.getService(serviceIdentifier);
 
-    expect(initialService1).not.toBe(newService1);
+    expect(initialService1).not.toBe(initialService2);
     expect(initialService2).toBe(newService2);
   });
 
@@ -506,4 +539,1758 @@ describe('ServiceProvider', () => {
       serviceProvider.getService(userServiceIdentifier);
     }).toThrowError();
   });
+
+  it('should dispose scoped and transient instances in reverse creation order when a scope is disposed', () => {
+    const disposed: string[] = [];
+
+    class ScopedService {
+      dispose(): void {
+        disposed.push('scoped');
+      }
+    }
+
+    class TransientService {
+      [Symbol.dispose](): void {
+        disposed.push('transient');
+      }
+    }
+
+    const scopedIdentifier = createServiceIdentifier<ScopedService>();
+    const transientIdentifier = createServiceIdentifier<TransientService>();
+
+    const serviceProvider = new ServiceProvider(
+      new Map([
+        [
+          scopedIdentifier,
+          {
+            serviceType: scopedIdentifier,
+            implementationType: ScopedService,
+            lifetime: 'scoped',
+          },
+        ],
+        [
+          transientIdentifier,
+          {
+            serviceType: transientIdentifier,
+            implementationType: TransientService,
+            lifetime: 'transient',
+          },
+        ],
+      ]),
+    );
+
+    const scope = serviceProvider.createScope();
+
+    scope.serviceProvider.getService(scopedIdentifier);
+    scope.serviceProvider.getService(scopedIdentifier);
+    scope.serviceProvider.getService(transientIdentifier);
+
+    scope.dispose();
+
+    expect(disposed).toEqual(['transient', 'scoped']);
+  });
+
+  it('should dispose singleton instances only when the root provider is disposed', () => {
+    const dispose = vi.fn();
+
+    class SingletonService {
+      dispose = dispose;
+    }
+
+    const serviceIdentifier = createServiceIdentifier<SingletonService>();
+
+    const serviceProvider = new ServiceProvider(
+      new Map([
+        [
+          serviceIdentifier,
+          {
+            serviceType: serviceIdentifier,
+            implementationType: SingletonService,
+            lifetime: 'singleton',
+          },
+        ],
+      ]),
+    );
+
+    const scope = serviceProvider.createScope();
+    scope.serviceProvider.getService(serviceIdentifier);
+    scope.dispose();
+
+    expect(dispose).not.toHaveBeenCalled();
+
+    serviceProvider.dispose();
+    serviceProvider.dispose();
+
+    expect(dispose).toHaveBeenCalledTimes(1);
+  });
+
+  it('should dispose the scope with a using declaration', () => {
+    const dispose = vi.fn();
+
+    class ScopedService {
+      dispose = dispose;
+    }
+
+    const serviceIdentifier = createServiceIdentifier<ScopedService>();
+
+    const serviceProvider = new ServiceProvider(
+      new Map([
+        [
+          serviceIdentifier,
+          {
+            serviceType: serviceIdentifier,
+            implementationType: ScopedService,
+            lifetime: 'scoped',
+          },
+        ],
+      ]),
+    );
+
+    {
+      using scope = serviceProvider.createScope();
+      scope.serviceProvider.getService(serviceIdentifier);
+    }
+
+    expect(dispose).toHaveBeenCalledTimes(1);
+  });
+
+  it('should await async disposal of instances in reverse creation order when a scope is disposed asynchronously', async () => {
+    const disposed: string[] = [];
+
+    class AsyncService {
+      async [Symbol.asyncDispose](): Promise<void> {
+        await Promise.resolve();
+        disposed.push('async');
+      }
+    }
+
+    class DisposeAsyncService {
+      async disposeAsync(): Promise<void> {
+        await Promise.resolve();
+        disposed.push('disposeAsync');
+      }
+    }
+
+    class SyncService {
+      dispose(): void {
+        disposed.push('sync');
+      }
+    }
+
+    const asyncIdentifier = createServiceIdentifier<AsyncService>();
+    const disposeAsyncIdentifier = createServiceIdentifier<DisposeAsyncService>();
+    const syncIdentifier = createServiceIdentifier<SyncService>();
+
+    const serviceProvider = new ServiceProvider(
+      new Map([
+        [
+          asyncIdentifier,
+          {
+            serviceType: asyncIdentifier,
+            implementationType: AsyncService,
+            lifetime: 'scoped',
+          },
+        ],
+        [
+          disposeAsyncIdentifier,
+          {
+            serviceType: disposeAsyncIdentifier,
+            implementationType: DisposeAsyncService,
+            lifetime: 'scoped',
+          },
+        ],
+        [
+          syncIdentifier,
+          {
+            serviceType: syncIdentifier,
+            implementationType: SyncService,
+            lifetime: 'transient',
+          },
+        ],
+      ]),
+    );
+
+    const scope = serviceProvider.createScope();
+
+    scope.serviceProvider.getService(asyncIdentifier);
+    scope.serviceProvider.getService(disposeAsyncIdentifier);
+    scope.serviceProvider.getService(syncIdentifier);
+
+    await scope.disposeAsync();
+
+    expect(disposed).toEqual(['sync', 'disposeAsync', 'async']);
+    expect(() => scope.serviceProvider.getService(asyncIdentifier)).toThrowError(
+      ObjectDisposedError,
+    );
+  });
+
+  it('should dispose the scope with an await using declaration', async () => {
+    const disposeAsync = vi.fn(async () => {});
+
+    class ScopedService {
+      disposeAsync = disposeAsync;
+    }
+
+    const serviceIdentifier = createServiceIdentifier<ScopedService>();
+
+    const serviceProvider = new ServiceProvider(
+      new Map([
+        [
+          serviceIdentifier,
+          {
+            serviceType: serviceIdentifier,
+            implementationType: ScopedService,
+            lifetime: 'scoped',
+          },
+        ],
+      ]),
+    );
+
+    {
+      await using scope = serviceProvider.createScope();
+      scope.serviceProvider.getService(serviceIdentifier);
+    }
+
+    expect(disposeAsync).toHaveBeenCalledTimes(1);
+  });
+
+  it('should collect disposal errors into an aggregate error after disposing every instance', async () => {
+    const firstError = new Error('first');
+    const secondError = new Error('second');
+    const dispose = vi.fn();
+
+    class HealthyService {
+      dispose = dispose;
+    }
+
+    class FailingService {
+      async disposeAsync(): Promise<void> {
+        throw firstError;
+      }
+    }
+
+    class OtherFailingService {
+      dispose(): void {
+        throw secondError;
+      }
+    }
+
+    const healthyIdentifier = createServiceIdentifier<HealthyService>();
+    const failingIdentifier = createServiceIdentifier<FailingService>();
+    const otherFailingIdentifier = createServiceIdentifier<OtherFailingService>();
+
+    const serviceProvider = new ServiceProvider(
+      new Map([
+        [
+          healthyIdentifier,
+          {
+            serviceType: healthyIdentifier,
+            implementationType: HealthyService,
+            lifetime: 'scoped',
+          },
+        ],
+        [
+          failingIdentifier,
+          {
+            serviceType: failingIdentifier,
+            implementationType: FailingService,
+            lifetime: 'scoped',
+          },
+        ],
+        [
+          otherFailingIdentifier,
+          {
+            serviceType: otherFailingIdentifier,
+            implementationType: OtherFailingService,
+            lifetime: 'scoped',
+          },
+        ],
+      ]),
+    );
+
+    const scope = serviceProvider.createScope();
+
+    scope.serviceProvider.getService(healthyIdentifier);
+    scope.serviceProvider.getService(failingIdentifier);
+    scope.serviceProvider.getService(otherFailingIdentifier);
+
+    const error = await scope.disposeAsync().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(AggregateError);
+    expect((error as AggregateError).errors).toEqual([secondError, firstError]);
+    expect(dispose).toHaveBeenCalledTimes(1);
+  });
+
+  it('should dispose every other instance synchronously and leave async-only instances to disposeAsync', async () => {
+    const disposed: string[] = [];
+
+    class First {
+      dispose() {
+        disposed.push('first');
+      }
+    }
+
+    class AsyncOnly {
+      async [Symbol.asyncDispose]() {
+        disposed.push('async');
+      }
+    }
+
+    class Last {
+      [Symbol.dispose]() {
+        disposed.push('last');
+      }
+    }
+
+    const firstIdentifier = createServiceIdentifier<First>();
+    const asyncOnlyIdentifier = createServiceIdentifier<AsyncOnly>();
+    const lastIdentifier = createServiceIdentifier<Last>();
+
+    const provider = new ServiceCollection()
+      .addScoped(firstIdentifier, First)
+      .addScoped(asyncOnlyIdentifier, AsyncOnly)
+      .addScoped(lastIdentifier, Last)
+      .build();
+    const scope = provider.createScope();
+
+    scope.serviceProvider.getService(firstIdentifier);
+    scope.serviceProvider.getService(asyncOnlyIdentifier);
+    scope.serviceProvider.getService(lastIdentifier);
+
+    expect(() => scope.dispose()).toThrowError(AggregateError);
+    expect(disposed).toEqual(['last', 'first']);
+
+    await scope.disposeAsync();
+    await scope.disposeAsync();
+
+    expect(disposed).toEqual(['last', 'first', 'async']);
+  });
+
+  it('should throw when synchronously disposing an instance that only supports async disposal', () => {
+    class AsyncService {
+      async disposeAsync(): Promise<void> {}
+    }
+
+    const serviceIdentifier = createServiceIdentifier<AsyncService>();
+
+    const serviceProvider = new ServiceProvider(
+      new Map([
+        [
+          serviceIdentifier,
+          {
+            serviceType: serviceIdentifier,
+            implementationType: AsyncService,
+            lifetime: 'scoped',
+          },
+        ],
+      ]),
+    );
+
+    const scope = serviceProvider.createScope();
+    scope.serviceProvider.getService(serviceIdentifier);
+
+    expect(() => scope.dispose()).toThrowError(AggregateError);
+  });
+
+  it('should throw a circular dependency error naming the cycle when services depend on each other', () => {
+    const aIdentifier = createServiceIdentifier<object>();
+    const bIdentifier = createServiceIdentifier<object>();
+    const cIdentifier = createServiceIdentifier<object>();
+
+    class A {
+      constructor(@inject(bIdentifier) public b: object) {}
+    }
+
+    class B {
+      constructor(@inject(cIdentifier) public c: object) {}
+    }
+
+    class C {
+      constructor(@inject(aIdentifier) public a: object) {}
+    }
+
+    const serviceProvider = new ServiceProvider(
+      new Map([
+        [aIdentifier, { serviceType: aIdentifier, implementationType: A, lifetime: 'transient' }],
+        [bIdentifier, { serviceType: bIdentifier, implementationType: B, lifetime: 'scoped' }],
+        [cIdentifier, { serviceType: cIdentifier, implementationType: C, lifetime: 'transient' }],
+      ]),
+    );
+
+    const scope = serviceProvider.createScope();
+
+    expect(() => scope.serviceProvider.getService(aIdentifier)).toThrowError(
+      new CircularDependencyError(['A', 'B', 'C', 'A']),
+    );
+    expect(() => scope.serviceProvider.getService(bIdentifier)).toThrowError(
+      'A circular dependency was detected: B -> C -> A -> B.',
+    );
+  });
+
+  it('should throw a circular dependency error when a factory resolves its own service', () => {
+    const serviceIdentifier = createServiceIdentifier<object>();
+
+    const serviceProvider = new ServiceProvider(
+      new Map([
+        [
+          serviceIdentifier,
+          {
+            serviceType: serviceIdentifier,
+            implementationType: Object,
+            lifetime: 'transient',
+            factory: provider => provider.getService(serviceIdentifier),
+          },
+        ],
+      ]),
+    );
+
+    expect(() => serviceProvider.getService(serviceIdentifier)).toThrowError(
+      CircularDependencyError,
+    );
+  });
+
+  it('should throw a service not registered error describing where the service was requested', () => {
+    const loggerIdentifier = createServiceIdentifier<object>('ILogger');
+    const userServiceIdentifier = createServiceIdentifier<object>('IUserService');
+    const userControllerIdentifier = createServiceIdentifier<object>();
+
+    class UserService {
+      constructor(
+        @inject(loggerIdentifier) public logger: object,
+        @inject(loggerIdentifier) public otherLogger: object,
+      ) {}
+    }
+
+    class UserController {
+      constructor(@inject(userServiceIdentifier) public userService: object) {}
+    }
+
+    const serviceProvider = new ServiceProvider(
+      new Map([
+        [
+          userServiceIdentifier,
+          {
+            serviceType: userServiceIdentifier,
+            implementationType: UserService,
+            lifetime: 'transient',
+          },
+        ],
+        [
+          userControllerIdentifier,
+          {
+            serviceType: userControllerIdentifier,
+            implementationType: UserController,
+            lifetime: 'transient',
+          },
+        ],
+      ]),
+    );
+
+    const error = (() => {
+      try {
+        serviceProvider.getService(userControllerIdentifier);
+      } catch (e) {
+        return e;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(ServiceNotRegisteredError);
+    expect(error).toMatchObject({
+      serviceName: 'ILogger',
+      requestingType: 'UserService',
+      parameterIndex: 0,
+      path: ['UserController', 'IUserService', 'ILogger'],
+      message:
+        "Service 'ILogger' is not registered. It was requested by parameter 0 of 'UserService'. Resolution path: UserController -> IUserService -> ILogger.",
+    });
+  });
+
+  it('should throw a service not registered error naming the identifier when resolved directly', () => {
+    const serviceIdentifier = createServiceIdentifier<object>('IService');
+    const serviceProvider = new ServiceProvider(new Map());
+
+    expect(() => serviceProvider.getService(serviceIdentifier)).toThrowError(
+      "Service 'IService' is not registered. Resolution path: IService.",
+    );
+  });
+
+  it('should throw a service activation error wrapping the error thrown by a constructor', () => {
+    const cause = new Error('Connection refused');
+    const databaseIdentifier = createServiceIdentifier<object>('IDatabase');
+    const repositoryIdentifier = createServiceIdentifier<object>('IRepository');
+
+    class Database {
+      constructor() {
+        throw cause;
+      }
+    }
+
+    class Repository {
+      constructor(@inject(databaseIdentifier) public database: object) {}
+    }
+
+    const serviceProvider = new ServiceProvider(
+      new Map([
+        [
+          databaseIdentifier,
+          {
+            serviceType: databaseIdentifier,
+            implementationType: Database,
+            lifetime: 'transient',
+          },
+        ],
+        [
+          repositoryIdentifier,
+          {
+            serviceType: repositoryIdentifier,
+            implementationType: Repository,
+            lifetime: 'transient',
+          },
+        ],
+      ]),
+    );
+
+    const error = (() => {
+      try {
+        serviceProvider.getService(repositoryIdentifier);
+      } catch (e) {
+        return e;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(ServiceActivationError);
+    expect(error).toMatchObject({
+      serviceName: 'IDatabase',
+      requestingType: 'Repository',
+      parameterIndex: 0,
+      path: ['IRepository', 'IDatabase'],
+      cause,
+      message:
+        "Failed to activate service 'IDatabase' (Connection refused). It was requested by parameter 0 of 'Repository'. Resolution path: IRepository -> IDatabase.",
+    });
+  });
+
+  it('should inject every registered implementation into a parameter decorated with injectAll', () => {
+    type IMiddleware = { name: string };
+
+    class FirstMiddleware implements IMiddleware {
+      name = 'first';
+    }
+
+    class SecondMiddleware implements IMiddleware {
+      name = 'second';
+    }
+
+    const middlewareIdentifier = createServiceIdentifier<IMiddleware>('IMiddleware');
+    const pipelineIdentifier = createServiceIdentifier<Pipeline>('Pipeline');
+
+    class Pipeline {
+      constructor(@injectAll(middlewareIdentifier) public middlewares: IMiddleware[]) {}
+    }
+
+    const serviceProvider = new ServiceProvider(
+      new Map<ServiceIdentifier, ServiceDescriptor | ServiceDescriptor[]>([
+        [
+          middlewareIdentifier,
+          [
+            {
+              serviceType: middlewareIdentifier,
+              implementationType: FirstMiddleware,
+              lifetime: 'singleton',
+            },
+            {
+              serviceType: middlewareIdentifier,
+              implementationType: SecondMiddleware,
+              lifetime: 'transient',
+            },
+          ],
+        ],
+        [
+          pipelineIdentifier,
+          {
+            serviceType: pipelineIdentifier,
+            implementationType: Pipeline,
+            lifetime: 'transient',
+          },
+        ],
+      ]),
+    );
+
+    const pipeline = serviceProvider.getService(pipelineIdentifier);
+
+    expect(pipeline.middlewares.map(middleware => middleware.name)).toEqual(['first', 'second']);
+  });
+
+  it('should return undefined from tryGetService when the service is not registered', () => {
+    const serviceIdentifier = createServiceIdentifier<object>();
+    const serviceProvider = new ServiceProvider(new Map());
+
+    expect(serviceProvider.tryGetService(serviceIdentifier)).toBeUndefined();
+  });
+
+  it('should resolve the service from tryGetService when the service is registered', () => {
+    const serviceIdentifier = createServiceIdentifier<object>();
+    const serviceProvider = new ServiceProvider(
+      new Map([
+        [
+          serviceIdentifier,
+          {
+            serviceType: serviceIdentifier,
+            implementationType: Object,
+            lifetime: 'singleton',
+          },
+        ],
+      ]),
+    );
+
+    expect(serviceProvider.tryGetService(serviceIdentifier)).toBe(
+      serviceProvider.getService(serviceIdentifier),
+    );
+  });
+
+  it('should inject undefined for optional dependencies that are not registered', () => {
+    class Telemetry {}
+
+    const telemetryIdentifier = createServiceIdentifier<Telemetry>('ITelemetry');
+    const metricsIdentifier = createServiceIdentifier<Telemetry>('IMetrics');
+    const loggerIdentifier = createServiceIdentifier<Telemetry>('ILogger');
+    const serviceIdentifier = createServiceIdentifier<Service>('IService');
+
+    class Service {
+      constructor(
+        @inject(telemetryIdentifier, { optional: true }) public telemetry?: Telemetry,
+        @optional() @inject(metricsIdentifier) public metrics?: Telemetry,
+        @inject(loggerIdentifier) @optional() public logger?: Telemetry,
+      ) {}
+    }
+
+    const serviceProvider = new ServiceProvider(
+      new Map([
+        [
+          serviceIdentifier,
+          {
+            serviceType: serviceIdentifier,
+            implementationType: Service,
+            lifetime: 'transient',
+          },
+        ],
+        [
+          loggerIdentifier,
+          {
+            serviceType: loggerIdentifier,
+            implementationType: Telemetry,
+            lifetime: 'transient',
+          },
+        ],
+      ]),
+    );
+
+    const service = serviceProvider.getService(serviceIdentifier);
+
+    expect(service.telemetry).toBeUndefined();
+    expect(service.metrics).toBeUndefined();
+    expect(service.logger).toBeInstanceOf(Telemetry);
+  });
+
+  it('should throw when a scoped service is resolved from the root provider with scope validation', () => {
+    const serviceIdentifier = createServiceIdentifier<object>('IUnitOfWork');
+
+    const serviceProvider = new ServiceProvider(
+      new Map([
+        [
+          serviceIdentifier,
+          {
+            serviceType: serviceIdentifier,
+            implementationType: Object,
+            lifetime: 'scoped',
+          },
+        ],
+      ]),
+      { validateScopes: true },
+    );
+
+    expect(() => serviceProvider.getService(serviceIdentifier)).toThrowError(ScopeValidationError);
+    expect(() => serviceProvider.getService(serviceIdentifier)).toThrowError(
+      "Cannot resolve scoped service 'IUnitOfWork' from the root provider. Resolution path: IUnitOfWork.",
+    );
+    expect(serviceProvider.createScope().serviceProvider.getService(serviceIdentifier)).toEqual({});
+  });
+
+  it('should throw when a transient resolved from the root provider depends on a scoped service with scope validation', () => {
+    const unitOfWorkIdentifier = createServiceIdentifier<object>('IUnitOfWork');
+    const handlerIdentifier = createServiceIdentifier<object>('IHandler');
+
+    class Handler {
+      constructor(@inject(unitOfWorkIdentifier) public unitOfWork: object) {}
+    }
+
+    const serviceProvider = new ServiceProvider(
+      new Map([
+        [
+          unitOfWorkIdentifier,
+          {
+            serviceType: unitOfWorkIdentifier,
+            implementationType: Object,
+            lifetime: 'scoped',
+          },
+        ],
+        [
+          handlerIdentifier,
+          {
+            serviceType: handlerIdentifier,
+            implementationType: Handler,
+            lifetime: 'transient',
+          },
+        ],
+      ]),
+      { validateScopes: true },
+    );
+
+    expect(() => serviceProvider.getService(handlerIdentifier)).toThrowError(
+      "Cannot resolve scoped service 'IUnitOfWork' from the root provider. Resolution path: IHandler -> IUnitOfWork.",
+    );
+    expect(
+      serviceProvider.createScope().serviceProvider.getService(handlerIdentifier),
+    ).toBeInstanceOf(Handler);
+  });
+
+  it('should throw when a singleton transitively depends on a scoped service with scope validation', () => {
+    const unitOfWorkIdentifier = createServiceIdentifier<object>('IUnitOfWork');
+    const repositoryIdentifier = createServiceIdentifier<object>('IRepository');
+    const cacheIdentifier = createServiceIdentifier<object>('ICache');
+
+    class Repository {
+      constructor(@inject(unitOfWorkIdentifier) public unitOfWork: object) {}
+    }
+
+    class Cache {
+      constructor(@inject(repositoryIdentifier) public repository: object) {}
+    }
+
+    const descriptors = new Map([
+      [
+        unitOfWorkIdentifier,
+        {
+          serviceType: unitOfWorkIdentifier,
+          implementationType: Object,
+          lifetime: 'scoped' as const,
+        },
+      ],
+      [
+        repositoryIdentifier,
+        {
+          serviceType: repositoryIdentifier,
+          implementationType: Repository,
+          lifetime: 'transient' as const,
+        },
+      ],
+      [
+        cacheIdentifier,
+        {
+          serviceType: cacheIdentifier,
+          implementationType: Cache,
+          lifetime: 'singleton' as const,
+        },
+      ],
+    ]);
+
+    const validatingScope = new ServiceProvider(descriptors, {
+      validateScopes: true,
+    }).createScope();
+    const scope = new ServiceProvider(descriptors).createScope();
+
+    expect(() => validatingScope.serviceProvider.getService(cacheIdentifier)).toThrowError(
+      "Cannot consume scoped service 'IUnitOfWork' from singleton 'ICache'. Captive dependency chain: ICache -> IRepository -> IUnitOfWork.",
+    );
+    expect(() => scope.serviceProvider.getService(cacheIdentifier)).not.toThrowError();
+  });
+
+  it('should create singletons lazily on first request and share them with the root and every scope', () => {
+    const constructed = vi.fn();
+
+    class Service {
+      constructor() {
+        constructed();
+      }
+    }
+
+    const serviceIdentifier = createServiceIdentifier<Service>();
+    const brokenIdentifier = createServiceIdentifier<object>();
+
+    class Broken {
+      constructor(@inject(createServiceIdentifier('IMissing')) public missing: object) {}
+    }
+
+    const serviceProvider = new ServiceProvider(
+      new Map([
+        [
+          brokenIdentifier,
+          {
+            serviceType: brokenIdentifier,
+            implementationType: Broken,
+            lifetime: 'singleton',
+          },
+        ],
+        [
+          serviceIdentifier,
+          {
+            serviceType: serviceIdentifier,
+            implementationType: Service,
+            lifetime: 'singleton',
+          },
+        ],
+      ]),
+    );
+
+    expect(constructed).not.toHaveBeenCalled();
+
+    const scope1 = serviceProvider.createScope();
+    const scope2 = serviceProvider.createScope();
+
+    const service1 = scope1.serviceProvider.getService(serviceIdentifier);
+    const service2 = scope2.serviceProvider.getService(serviceIdentifier);
+    const service3 = serviceProvider.getService(serviceIdentifier);
+
+    scope1.dispose();
+
+    expect(constructed).toHaveBeenCalledTimes(1);
+    expect(service1).toBe(service2);
+    expect(service1).toBe(service3);
+    expect(() => serviceProvider.getService(brokenIdentifier)).toThrowError(
+      ServiceNotRegisteredError,
+    );
+  });
+
+  it('should dispose singletons first resolved in a scope with the root provider', () => {
+    const dispose = vi.fn();
+
+    class Service {
+      dispose = dispose;
+    }
+
+    const serviceIdentifier = createServiceIdentifier<Service>();
+
+    const serviceProvider = new ServiceProvider(
+      new Map([
+        [
+          serviceIdentifier,
+          {
+            serviceType: serviceIdentifier,
+            implementationType: Service,
+            lifetime: 'singleton',
+          },
+        ],
+      ]),
+    );
+
+    const scope = serviceProvider.createScope();
+    scope.serviceProvider.getService(serviceIdentifier);
+    scope.dispose();
+
+    expect(dispose).not.toHaveBeenCalled();
+
+    serviceProvider.dispose();
+
+    expect(dispose).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse to resolve singletons from a scope once the root provider is disposed', async () => {
+    const dispose = vi.fn();
+    const constructed = vi.fn();
+
+    class Service {
+      constructor() {
+        constructed();
+      }
+
+      dispose = dispose;
+    }
+
+    const serviceIdentifier = createServiceIdentifier<Service>('IService');
+    const asyncIdentifier = createServiceIdentifier<Service>('IAsyncService');
+    const childIdentifier = createServiceIdentifier<Service>('IChildService');
+
+    const provider = new ServiceCollection()
+      .addSingleton(serviceIdentifier, Service)
+      .addSingletonAsync(asyncIdentifier, async () => new Service())
+      .build();
+    const child = provider.createChildContainer(services =>
+      services.addSingleton(childIdentifier, Service),
+    );
+    const scope = provider.createScope();
+    const childScope = child.createScope();
+
+    provider.dispose();
+
+    expect(() => scope.serviceProvider.getService(serviceIdentifier)).toThrowError(
+      ObjectDisposedError,
+    );
+    await expect(scope.serviceProvider.getServiceAsync(asyncIdentifier)).rejects.toThrowError(
+      ObjectDisposedError,
+    );
+    expect(() => childScope.serviceProvider.getService(serviceIdentifier)).toThrowError(
+      ObjectDisposedError,
+    );
+    expect(childScope.serviceProvider.getService(childIdentifier)).toBeInstanceOf(Service);
+    expect(constructed).toHaveBeenCalledTimes(1);
+    expect(dispose).not.toHaveBeenCalled();
+  });
+
+  it('should create eager singletons when the provider is built', () => {
+    const eagerConstructed = vi.fn();
+    const lazyConstructed = vi.fn();
+
+    class EagerService {
+      constructor() {
+        eagerConstructed();
+      }
+    }
+
+    class LazyService {
+      constructor() {
+        lazyConstructed();
+      }
+    }
+
+    const eagerIdentifier = createServiceIdentifier<EagerService>();
+    const lazyIdentifier = createServiceIdentifier<LazyService>();
+
+    const descriptors = new Map<ServiceIdentifier, ServiceDescriptor>([
+      [
+        eagerIdentifier,
+        {
+          serviceType: eagerIdentifier,
+          implementationType: EagerService,
+          lifetime: 'singleton',
+          eager: true,
+        },
+      ],
+      [
+        lazyIdentifier,
+        {
+          serviceType: lazyIdentifier,
+          implementationType: LazyService,
+          lifetime: 'singleton',
+        },
+      ],
+    ]);
+
+    new ServiceProvider(descriptors);
+
+    expect(eagerConstructed).toHaveBeenCalledTimes(1);
+    expect(lazyConstructed).not.toHaveBeenCalled();
+
+    new ServiceProvider(descriptors, { eagerSingletons: true });
+
+    expect(eagerConstructed).toHaveBeenCalledTimes(2);
+    expect(lazyConstructed).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse to resolve synchronously a singleton still being created asynchronously', async () => {
+    class Dependency {}
+
+    const dependencyIdentifier = createServiceIdentifier<Dependency>('IDependency');
+    const serviceIdentifier = createServiceIdentifier<object>('IService');
+
+    class Service {
+      constructor(@inject(dependencyIdentifier) public dependency: Dependency) {}
+    }
+
+    const provider = new ServiceCollection()
+      .addSingleton(dependencyIdentifier, Dependency)
+      .addSingleton(serviceIdentifier, Service)
+      .build();
+
+    const pending = provider.getServiceAsync(serviceIdentifier);
+
+    expect(() => provider.getService(serviceIdentifier)).toThrowError(AsyncResolutionRequiredError);
+    expect(() => provider.getService(serviceIdentifier)).toThrowError(
+      "Service 'IService' is still being created by getServiceAsync()",
+    );
+
+    const service = await pending;
+
+    expect(provider.getService(serviceIdentifier)).toBe(service);
+    expect(provider.getService(dependencyIdentifier)).toBe((service as Service).dependency);
+  });
+
+  it('should dispose services whose asynchronous creation completes after their scope is disposed', async () => {
+    const dispose = vi.fn();
+    const connectionIdentifier = createServiceIdentifier<{ dispose(): void }>('IConnection');
+    let open!: () => void;
+    const opened = new Promise<void>(resolve => (open = resolve));
+
+    const provider = new ServiceCollection()
+      .addScopedAsync(connectionIdentifier, async () => {
+        await opened;
+        return { dispose };
+      })
+      .build();
+
+    const scope = provider.createScope();
+    const connection = scope.serviceProvider.getServiceAsync(connectionIdentifier);
+
+    await scope.disposeAsync();
+    open();
+
+    await expect(connection).rejects.toThrowError(ObjectDisposedError);
+    expect(dispose).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse to resolve synchronously a service whose postConstruct method returns a promise', async () => {
+    const serviceIdentifier = createServiceIdentifier<Service>('IService');
+
+    class Service {
+      connected = false;
+
+      @postConstruct()
+      async connect() {
+        await Promise.resolve();
+        this.connected = true;
+        throw new Error('Connection refused');
+      }
+    }
+
+    const provider = new ServiceCollection().addSingleton(serviceIdentifier, Service).build();
+
+    expect(() => provider.getService(serviceIdentifier)).toThrowError(
+      "Service 'IService' requires asynchronous initialization and must be resolved with getServiceAsync().",
+    );
+    await expect(provider.getServiceAsync(serviceIdentifier)).rejects.toThrowError(
+      ServiceActivationError,
+    );
+  });
+
+  it('should share one in-flight creation between concurrent requests for an async singleton', async () => {
+    const factory = vi.fn(async () => {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      return { connected: true };
+    });
+    const serviceIdentifier = createServiceIdentifier<{ connected: boolean }>('IDatabase');
+
+    const provider = new ServiceCollection().addSingletonAsync(serviceIdentifier, factory).build();
+    const scope = provider.createScope();
+
+    const [service1, service2] = await Promise.all([
+      provider.getServiceAsync(serviceIdentifier),
+      scope.serviceProvider.getServiceAsync(serviceIdentifier),
+    ]);
+
+    expect(factory).toHaveBeenCalledTimes(1);
+    expect(service1).toBe(service2);
+    expect(provider.getService(serviceIdentifier)).toBe(service1);
+  });
+
+  it('should create async scoped services once per scope', async () => {
+    const serviceIdentifier = createServiceIdentifier<object>();
+
+    const provider = new ServiceCollection()
+      .addScopedAsync(serviceIdentifier, async () => ({}))
+      .build();
+    const scope1 = provider.createScope();
+    const scope2 = provider.createScope();
+
+    const [service1, service2, service3] = await Promise.all([
+      scope1.serviceProvider.getServiceAsync(serviceIdentifier),
+      scope1.serviceProvider.getServiceAsync(serviceIdentifier),
+      scope2.serviceProvider.getServiceAsync(serviceIdentifier),
+    ]);
+
+    expect(service1).toBe(service2);
+    expect(service1).not.toBe(service3);
+  });
+
+  it('should await initAsync and async dependencies before returning a service', async () => {
+    const configIdentifier = createServiceIdentifier<{ url: string }>('IConfig');
+    const repositoryIdentifier = createServiceIdentifier<Repository>('IRepository');
+
+    class Repository {
+      initialized = false;
+
+      constructor(@inject(configIdentifier) public config: { url: string }) {}
+
+      async initAsync() {
+        await Promise.resolve();
+        this.initialized = true;
+      }
+    }
+
+    const provider = new ServiceCollection()
+      .addSingletonAsync(configIdentifier, async () => ({ url: 'db://localhost' }))
+      .addScoped(repositoryIdentifier, Repository)
+      .build();
+    const scope = provider.createScope();
+
+    expect(() => scope.serviceProvider.getService(repositoryIdentifier)).toThrowError(
+      AsyncResolutionRequiredError,
+    );
+
+    const repository = await scope.serviceProvider.getServiceAsync(repositoryIdentifier);
+
+    expect(repository.initialized).toBe(true);
+    expect(repository.config.url).toBe('db://localhost');
+  });
+
+  it('should resolve singletons that depend on each other through properties asynchronously', async () => {
+    interface IChild {
+      parent: Parent;
+    }
+
+    const parentIdentifier = createServiceIdentifier<Parent>('IParent');
+    const childIdentifier = createServiceIdentifier<IChild>('IChild');
+
+    class Parent {
+      @injectProperty(childIdentifier) child!: IChild;
+      ready = false;
+
+      async initAsync() {
+        await Promise.resolve();
+        this.ready = true;
+      }
+    }
+
+    class Child {
+      constructor(@inject(parentIdentifier) public parent: Parent) {}
+    }
+
+    const provider = new ServiceCollection()
+      .addSingleton(parentIdentifier, Parent)
+      .addSingleton(childIdentifier, Child)
+      .build();
+
+    const pending = provider.getServiceAsync(parentIdentifier);
+
+    expect(() => provider.getService(parentIdentifier)).toThrowError(AsyncResolutionRequiredError);
+
+    const [parent, concurrent] = await Promise.all([
+      pending,
+      provider.getServiceAsync(parentIdentifier),
+    ]);
+
+    expect(parent.child.parent).toBe(parent);
+    expect(concurrent).toBe(parent);
+    expect(concurrent.ready).toBe(true);
+  });
+
+  it('should detect circular dependencies through async factories', async () => {
+    const firstIdentifier = createServiceIdentifier<object>('IFirst');
+    const secondIdentifier = createServiceIdentifier<object>('ISecond');
+
+    const provider = new ServiceCollection()
+      .addSingletonAsync(firstIdentifier, provider => provider.getServiceAsync(secondIdentifier))
+      .addSingletonAsync(secondIdentifier, provider => provider.getServiceAsync(firstIdentifier))
+      .build();
+
+    const error = await provider.getServiceAsync(firstIdentifier).catch(error => error);
+
+    expect(error).toBeInstanceOf(CircularDependencyError);
+    expect(error.path).toEqual(['IFirst', 'ISecond', 'IFirst']);
+  });
+
+  it('should resolve keyed services by key and pass the key to keyed factories', () => {
+    interface IStorage {
+      name: string;
+    }
+
+    class S3Storage implements IStorage {
+      name = 's3';
+    }
+
+    const storageIdentifier = createServiceIdentifier<IStorage>('IStorage');
+
+    const provider = new ServiceCollection()
+      .addKeyedSingleton(storageIdentifier, 's3', S3Storage)
+      .addKeyedTransient(storageIdentifier, 'memory', (_, key) => ({ name: `${String(key)}` }))
+      .build();
+
+    const s3Storage = provider.getKeyedService(storageIdentifier, 's3');
+
+    expect(s3Storage).toBeInstanceOf(S3Storage);
+    expect(provider.getKeyedService(storageIdentifier, 's3')).toBe(s3Storage);
+    expect(provider.getKeyedService(storageIdentifier, 'memory').name).toBe('memory');
+    expect(provider.getServices(storageIdentifier)).toEqual([]);
+    expect(() => provider.getKeyedService(storageIdentifier, 'local')).toThrowError(
+      "Service 'IStorage[local]' is not registered.",
+    );
+  });
+
+  it('should inject keyed services into parameters decorated with injectKeyed', () => {
+    interface IStorage {
+      name: string;
+    }
+
+    const storageIdentifier = createServiceIdentifier<IStorage>('IStorage');
+    const jobIdentifier = createServiceIdentifier<BackupJob>('IBackupJob');
+
+    class BackupJob {
+      constructor(
+        @injectKeyed(storageIdentifier, 'local') public source: IStorage,
+        @injectKeyed(storageIdentifier, 's3') public target: IStorage,
+        @inject(storageIdentifier) public fallback: IStorage,
+      ) {}
+    }
+
+    const provider = new ServiceCollection()
+      .addSingleton(storageIdentifier, () => ({ name: 'default' }))
+      .addKeyedScoped(storageIdentifier, 'local', () => ({ name: 'local' }))
+      .addKeyedScoped(storageIdentifier, 's3', () => ({ name: 's3' }))
+      .addScoped(jobIdentifier, BackupJob)
+      .build();
+
+    const job = provider.createScope().serviceProvider.getService(jobIdentifier);
+
+    expect(job.source.name).toBe('local');
+    expect(job.target.name).toBe('s3');
+    expect(job.fallback.name).toBe('default');
+  });
+
+  it('should resolve keyed services from lazy and factory parameters decorated with injectKeyed', async () => {
+    interface IStorage {
+      name: string;
+    }
+
+    const storageIdentifier = createServiceIdentifier<IStorage>('IStorage');
+    const exporterIdentifier = createServiceIdentifier<Exporter>('IExporter');
+
+    class Exporter {
+      constructor(
+        @injectLazy(storageIdentifier)
+        @injectKeyed(storageIdentifier, 's3')
+        public s3: Lazy<IStorage>,
+        @injectFactory(storageIdentifier)
+        @injectKeyed(storageIdentifier, 'memory')
+        public createMemory: () => IStorage,
+      ) {}
+    }
+
+    const provider = new ServiceCollection()
+      .addKeyedSingleton(storageIdentifier, 's3', () => ({ name: 's3' }))
+      .addKeyedTransient(storageIdentifier, 'memory', () => ({ name: 'memory' }))
+      .addTransient(exporterIdentifier, Exporter)
+      .build({ validateOnBuild: true });
+
+    const exporter = provider.getService(exporterIdentifier);
+    const asyncExporter = await provider.getServiceAsync(exporterIdentifier);
+
+    expect(exporter.s3().name).toBe('s3');
+    expect(asyncExporter.s3()).toBe(exporter.s3());
+    expect(exporter.createMemory().name).toBe('memory');
+    expect(asyncExporter.createMemory()).not.toBe(exporter.createMemory());
+  });
+
+  it('should create child containers that override registrations and own their singletons', async () => {
+    const disposeClock = vi.fn();
+    const disposeCache = vi.fn();
+
+    class Clock {
+      dispose = disposeClock;
+    }
+
+    class Cache {
+      dispose = disposeCache;
+    }
+
+    const nameIdentifier = createServiceIdentifier<string>('Name');
+    const clockIdentifier = createServiceIdentifier<Clock>('IClock');
+    const cacheIdentifier = createServiceIdentifier<Cache>('ICache');
+    const greeterIdentifier = createServiceIdentifier<Greeter>('IGreeter');
+
+    class Greeter {
+      constructor(
+        @inject(nameIdentifier) public name: string,
+        @inject(clockIdentifier) public clock: Clock,
+      ) {}
+    }
+
+    const provider = new ServiceCollection()
+      .addSingleton(nameIdentifier, () => 'parent')
+      .addSingleton(clockIdentifier, Clock)
+      .addTransient(greeterIdentifier, Greeter)
+      .build();
+
+    const child = provider.createChildContainer(services => {
+      services.addSingleton(nameIdentifier, () => 'child').addSingleton(cacheIdentifier, Cache);
+    });
+
+    const greeter = child.getService(greeterIdentifier);
+
+    expect(greeter.name).toBe('child');
+    expect(greeter.clock).toBe(provider.getService(clockIdentifier));
+    expect(await child.getServiceAsync(clockIdentifier)).toBe(greeter.clock);
+    expect(child.createScope().serviceProvider.getService(clockIdentifier)).toBe(greeter.clock);
+    expect(child.getServices(nameIdentifier)).toEqual(['parent', 'child']);
+    expect(provider.getService(greeterIdentifier).name).toBe('parent');
+    expect(child.getService(cacheIdentifier)).toBeInstanceOf(Cache);
+    expect(() => provider.getService(cacheIdentifier)).toThrowError(ServiceNotRegisteredError);
+
+    child.dispose();
+
+    expect(disposeCache).toHaveBeenCalledTimes(1);
+    expect(disposeClock).not.toHaveBeenCalled();
+    expect(provider.getService(clockIdentifier)).toBe(greeter.clock);
+  });
+
+  it('should share singletons created from inherited open registrations with child containers', () => {
+    class Repository {
+      constructor(public entity: new () => unknown) {}
+    }
+
+    class User {}
+
+    const repositories = createServiceIdentifierFamily<Repository>('IRepository');
+
+    const provider = new ServiceCollection()
+      .addSingletonOpen(repositories, (_, entity) => new Repository(entity))
+      .build();
+
+    const child = provider.createChildContainer(() => {});
+
+    expect(child.getService(repositories(User))).toBe(provider.getService(repositories(User)));
+  });
+
+  it('should resolve scoped placeholders to the values provided to each scope', async () => {
+    type Request = { path: string };
+    type User = { name: string };
+
+    const requestIdentifier = createServiceIdentifier<Request>('IRequest');
+    const userIdentifier = createServiceIdentifier<User>('IUser');
+    const handlerIdentifier = createServiceIdentifier<Handler>('IHandler');
+
+    class Handler {
+      constructor(
+        @inject(requestIdentifier) public request: Request,
+        @inject(userIdentifier) public user: User,
+      ) {}
+    }
+
+    const provider = new ServiceCollection()
+      .addScopedPlaceholder(requestIdentifier)
+      .addScopedPlaceholder(userIdentifier)
+      .addScoped(handlerIdentifier, Handler)
+      .build({ validateOnBuild: true });
+
+    const request = { path: '/orders' };
+    const user = { name: 'ada' };
+    const scope = provider.createScope({ values: [[requestIdentifier, request]] });
+    scope.serviceProvider.provide(userIdentifier, user);
+
+    const handler = scope.serviceProvider.getService(handlerIdentifier);
+
+    expect(handler.request).toBe(request);
+    expect(handler.user).toBe(user);
+    expect(await scope.serviceProvider.getServiceAsync(requestIdentifier)).toBe(request);
+
+    const emptyScope = provider.createScope();
+
+    expect(() => emptyScope.serviceProvider.getService(handlerIdentifier)).toThrowError(
+      "Service 'IRequest' is a scoped placeholder, but no value was provided to the scope. Provide one with createScope({ values }) or provide(). Resolution path: IHandler -> IRequest.",
+    );
+    await expect(emptyScope.serviceProvider.getServiceAsync(userIdentifier)).rejects.toThrowError(
+      ScopedValueNotProvidedError,
+    );
+  });
+
+  it('should refuse to provide values for services that are not scoped', () => {
+    const singletonIdentifier = createServiceIdentifier<object>('ISingleton');
+
+    const provider = new ServiceCollection().addSingleton(singletonIdentifier, () => ({})).build();
+    const scope = provider.createScope();
+
+    expect(() => scope.serviceProvider.provide(singletonIdentifier, {})).toThrowError(
+      "Cannot provide a value for service 'ISingleton' because it is registered as singleton, not scoped.",
+    );
+    expect(() =>
+      provider.createScope({ values: [[createServiceIdentifier('IMissing'), {}]] }),
+    ).toThrowError(ServiceNotRegisteredError);
+  });
+
+  it('should create instances from runtime arguments mixed with injected dependencies', () => {
+    class Database {}
+
+    const databaseIdentifier = createServiceIdentifier<Database>('IDatabase');
+
+    class ReportGenerator {
+      public extra: unknown[];
+
+      constructor(
+        public reportId: string,
+        @inject(databaseIdentifier) public database: Database,
+        public format: string,
+        ...extra: unknown[]
+      ) {
+        this.extra = extra;
+      }
+    }
+
+    const provider = new ServiceCollection().addSingleton(databaseIdentifier, Database).build();
+
+    const generator = provider.createInstance(ReportGenerator, 'quarterly', 'pdf', 'draft');
+
+    expect(generator.reportId).toBe('quarterly');
+    expect(generator.database).toBe(provider.getService(databaseIdentifier));
+    expect(generator.format).toBe('pdf');
+    expect(generator.extra).toEqual(['draft']);
+    expect(() => provider.createInstance(ReportGenerator, 'weekly')).toThrowError(
+      MissingInjectDecoratorError,
+    );
+  });
+
+  it('should create a new instance from the given arguments on every call of a factory', () => {
+    class Database {}
+
+    const databaseIdentifier = createServiceIdentifier<Database>('IDatabase');
+
+    class ReportGenerator {
+      constructor(
+        public reportId: string,
+        @inject(databaseIdentifier) public database: Database,
+      ) {}
+    }
+
+    const provider = new ServiceCollection().addSingleton(databaseIdentifier, Database).build();
+    const createGenerator = provider.createFactory<ReportGenerator, [string]>(ReportGenerator);
+
+    const monthly = createGenerator('monthly');
+    const weekly = createGenerator('weekly');
+
+    expect(monthly.reportId).toBe('monthly');
+    expect(weekly.reportId).toBe('weekly');
+    expect(monthly).not.toBe(createGenerator('monthly'));
+    expect(monthly.database).toBe(weekly.database);
+  });
+
+  it('should create instances with the services of a scope and dispose them with the scope', () => {
+    const disposed: string[] = [];
+
+    class UnitOfWork {}
+
+    const unitOfWorkIdentifier = createServiceIdentifier<UnitOfWork>('IUnitOfWork');
+
+    class ImportJob {
+      constructor(
+        public fileName: string,
+        @inject(unitOfWorkIdentifier) public unitOfWork: UnitOfWork,
+      ) {}
+
+      dispose() {
+        disposed.push(this.fileName);
+      }
+    }
+
+    const provider = new ServiceCollection()
+      .addScoped(unitOfWorkIdentifier, UnitOfWork)
+      .build({ validateScopes: true });
+
+    const scope = provider.createScope();
+    const job = scope.serviceProvider.createInstance(ImportJob, 'orders.csv');
+    const createJob = scope.serviceProvider.createFactory<ImportJob, [string]>(ImportJob);
+    const otherJob = createJob('customers.csv');
+
+    expect(job.unitOfWork).toBe(scope.serviceProvider.getService(unitOfWorkIdentifier));
+    expect(otherJob.unitOfWork).toBe(job.unitOfWork);
+    expect(() => provider.createInstance(ImportJob, 'orders.csv')).toThrowError(
+      ScopeValidationError,
+    );
+
+    scope.dispose();
+
+    expect(disposed).toEqual(['customers.csv', 'orders.csv']);
+    expect(() => createJob('products.csv')).toThrowError(ObjectDisposedError);
+    expect(() => scope.serviceProvider.createInstance(ImportJob, 'products.csv')).toThrowError(
+      ObjectDisposedError,
+    );
+  });
+
+  it('should refuse to create instances of classes that are not injectable in strict mode', () => {
+    class Clock {}
+
+    const clockIdentifier = createServiceIdentifier<Clock>('IClock');
+
+    class Timer {
+      constructor(
+        public name: string,
+        @inject(clockIdentifier) public clock: Clock,
+      ) {}
+    }
+
+    @injectable()
+    class InjectableTimer {
+      constructor(
+        public name: string,
+        @inject(clockIdentifier) public clock: Clock,
+      ) {}
+    }
+
+    const provider = new ServiceCollection()
+      .addSingleton(clockIdentifier, Clock, [])
+      .build({ strict: true });
+
+    expect(() => provider.createInstance(Timer, 'lap')).toThrowError(NotInjectableError);
+    expect(() => provider.createFactory(Timer)('lap')).toThrowError(NotInjectableError);
+    expect(provider.createInstance(InjectableTimer, 'lap').name).toBe('lap');
+  });
+
+  it('should inject decorated fields and setters of base and derived classes before calling postConstruct', () => {
+    const loggerIdentifier = createServiceIdentifier<{ prefix: string }>('ILogger');
+    const telemetryIdentifier = createServiceIdentifier<object>('ITelemetry');
+    const clockIdentifier = createServiceIdentifier<{ now: number }>('IClock');
+    const controllerIdentifier = createServiceIdentifier<UsersController>('IUsersController');
+
+    abstract class Controller {
+      @injectProperty(loggerIdentifier) logger!: { prefix: string };
+      @injectProperty(telemetryIdentifier, { optional: true }) telemetry?: object;
+    }
+
+    class UsersController extends Controller {
+      startedAt?: number;
+      initializedWith?: string;
+
+      @injectProperty(clockIdentifier)
+      set clock(clock: { now: number }) {
+        this.startedAt = clock.now;
+      }
+
+      @postConstruct()
+      init() {
+        this.initializedWith = `${this.logger.prefix}${this.startedAt}`;
+      }
+    }
+
+    const provider = new ServiceCollection()
+      .addSingleton(loggerIdentifier, () => ({ prefix: 'users@' }))
+      .addSingleton(clockIdentifier, () => ({ now: 42 }))
+      .addTransient(controllerIdentifier, UsersController)
+      .build({ validateOnBuild: true });
+
+    const controller = provider.getService(controllerIdentifier);
+
+    expect(controller.telemetry).toBeUndefined();
+    expect(controller.startedAt).toBe(42);
+    expect(controller.initializedWith).toBe('users@42');
+  });
+
+  it('should resolve singletons that depend on each other through properties', () => {
+    interface IChild {
+      parent: Parent;
+    }
+
+    const parentIdentifier = createServiceIdentifier<Parent>('IParent');
+    const childIdentifier = createServiceIdentifier<IChild>('IChild');
+
+    class Parent {
+      @injectProperty(childIdentifier) child!: IChild;
+    }
+
+    class Child {
+      constructor(@inject(parentIdentifier) public parent: Parent) {}
+    }
+
+    const transientIdentifier = createServiceIdentifier<Node>('INode');
+
+    class Node {
+      @injectProperty(transientIdentifier) next!: Node;
+    }
+
+    const provider = new ServiceCollection()
+      .addSingleton(parentIdentifier, Parent)
+      .addSingleton(childIdentifier, Child)
+      .addTransient(transientIdentifier, Node)
+      .build({ validateOnBuild: true });
+
+    const parent = provider.getService(parentIdentifier);
+
+    expect(parent.child.parent).toBe(parent);
+    expect(() => provider.getService(transientIdentifier)).toThrowError(CircularDependencyError);
+  });
+
+  it('should inject properties and await postConstruct when resolving asynchronously', async () => {
+    const configIdentifier = createServiceIdentifier<{ url: string }>('IConfig');
+    const clientIdentifier = createServiceIdentifier<Client>('IClient');
+
+    class Client {
+      @injectProperty(configIdentifier) config!: { url: string };
+      connectedTo?: string;
+
+      @postConstruct()
+      async connect() {
+        await Promise.resolve();
+        this.connectedTo = this.config.url;
+      }
+    }
+
+    const provider = new ServiceCollection()
+      .addSingletonAsync(configIdentifier, async () => ({ url: 'https://example.com' }))
+      .addSingleton(clientIdentifier, Client)
+      .build();
+
+    const client = await provider.getServiceAsync(clientIdentifier);
+
+    expect(client.connectedTo).toBe('https://example.com');
+  });
+
+  it('should resolve classes using standard decorators alongside legacy decorators', () => {
+    interface IClock {
+      now(): number;
+    }
+
+    const clockIdentifier = createServiceIdentifier<IClock>('IClock');
+    const titleIdentifier = createServiceIdentifier<string>('Title');
+    const reportIdentifier = createServiceIdentifier<Report>('IReport');
+    const printerIdentifier = createServiceIdentifier<Printer>('IPrinter');
+
+    class Report {
+      clock!: IClock;
+      ready = false;
+
+      constructor(public title: string) {}
+
+      init(): void {
+        this.ready = this.clock.now() === 42;
+      }
+    }
+
+    // Simulates how standard decorators are applied to the class and its members
+    const metadata: DecoratorMetadataObject = {};
+    const addInitializer = () => {};
+
+    injectable({ deps: [titleIdentifier] })(Report, {
+      kind: 'class',
+      name: 'Report',
+      metadata,
+      addInitializer,
+    });
+    inject(clockIdentifier)(undefined, {
+      kind: 'field',
+      name: 'clock',
+      static: false,
+      private: false,
+      metadata,
+      addInitializer,
+    } as unknown as ClassFieldDecoratorContext);
+    postConstruct()(Report.prototype.init, {
+      kind: 'method',
+      name: 'init',
+      static: false,
+      private: false,
+      metadata,
+      addInitializer,
+    } as unknown as ClassMethodDecoratorContext);
+    Object.defineProperty(Report, Symbol.metadata, { value: metadata });
+
+    @injectable()
+    class Printer {
+      constructor(@inject(reportIdentifier) public report: Report) {}
+    }
+
+    const provider = new ServiceCollection()
+      .addSingleton(clockIdentifier, () => ({ now: () => 42 }))
+      .addSingleton(titleIdentifier, () => 'Quarterly')
+      .addTransient(reportIdentifier, Report)
+      .addTransient(printerIdentifier, Printer)
+      .build({ strict: true, validateOnBuild: true });
+
+    const { report } = provider.getService(printerIdentifier);
+
+    expect(report.title).toBe('Quarterly');
+    expect(report.clock).toBe(provider.getService(clockIdentifier));
+    expect(report.ready).toBe(true);
+  });
+
+  it('should resolve classes compiled with standard decorators', () => {
+    const provider = new ServiceCollection()
+      .addSingleton(clockIdentifier, () => ({ now: () => 42 }))
+      .addSingleton(titleIdentifier, () => 'Quarterly')
+      .addTransient(serviceIdentifierOf(Report), Report)
+      .build({ strict: true, validateOnBuild: true });
+
+    const report = provider.getService(serviceIdentifierOf(Report));
+
+    expect(Report[Symbol.metadata]).toBeDefined();
+    expect(report.title).toBe('Quarterly');
+    expect(report.clock).toBe(provider.getService(clockIdentifier));
+    expect(report.fieldClock).toBe(report.clock);
+    expect(report.auditLog).toBeUndefined();
+    expect(report.ready).toBe(true);
+    expect(() =>
+      new ServiceCollection()
+        .addSingleton(titleIdentifier, () => 'Quarterly')
+        .addTransient(serviceIdentifierOf(UnlistedDependencies), UnlistedDependencies)
+        .build({ strict: true, validateOnBuild: true }),
+    ).toThrowError(
+      "Parameter 0 of 'UnlistedDependencies' has no @inject decorator, so the service to inject cannot be determined.",
+    );
+  });
+
+  it('should inject lazy resolvers that resolve once from the scope that created the service', () => {
+    const constructed = vi.fn();
+
+    class Renderer {
+      constructor() {
+        constructed();
+      }
+    }
+
+    const rendererIdentifier = createServiceIdentifier<Renderer>('IRenderer');
+    const controllerIdentifier = createServiceIdentifier<Controller>('IController');
+
+    class Controller {
+      constructor(@injectLazy(rendererIdentifier) public renderer: Lazy<Renderer>) {}
+    }
+
+    const provider = new ServiceCollection()
+      .addScoped(rendererIdentifier, Renderer)
+      .addScoped(controllerIdentifier, Controller)
+      .build({ validateScopes: true });
+
+    const scope = provider.createScope();
+    const controller = scope.serviceProvider.getService(controllerIdentifier);
+
+    expect(constructed).not.toHaveBeenCalled();
+    expect(controller.renderer()).toBe(scope.serviceProvider.getService(rendererIdentifier));
+    expect(controller.renderer()).toBe(controller.renderer());
+    expect(constructed).toHaveBeenCalledTimes(1);
+  });
+
+  it('should inject factories that resolve a new transient on every call', async () => {
+    class Parser {}
+
+    const parserIdentifier = createServiceIdentifier<Parser>('IParser');
+    const jobIdentifier = createServiceIdentifier<Job>('IJob');
+
+    class Job {
+      constructor(@injectFactory(parserIdentifier) public createParser: () => Parser) {}
+    }
+
+    const provider = new ServiceCollection()
+      .addTransient(parserIdentifier, Parser)
+      .addSingleton(jobIdentifier, Job)
+      .build({ validateOnBuild: true });
+
+    const job = await provider.getServiceAsync(jobIdentifier);
+
+    expect(job.createParser()).toBeInstanceOf(Parser);
+    expect(job.createParser()).not.toBe(job.createParser());
+  });
+
+  it('should allow lazy dependencies to break circular dependencies', () => {
+    const aIdentifier = createServiceIdentifier<A>('A');
+    const bIdentifier = createServiceIdentifier<B>('B');
+
+    class A {
+      constructor(@injectLazy(bIdentifier) public b: Lazy<B>) {}
+    }
+
+    class B {
+      constructor(@inject(aIdentifier) public a: A) {}
+    }
+
+    const services = new ServiceCollection()
+      .addSingleton(aIdentifier, A)
+      .addSingleton(bIdentifier, B);
+
+    const provider = services.build({ validateOnBuild: true });
+    const a = provider.getService(aIdentifier);
+
+    expect(a.b().a).toBe(a);
+  });
 });
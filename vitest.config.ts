@@ -1,6 +1,10 @@
+import ts from 'typescript';
 import { defineConfig } from 'vitest/config';
 import swc from 'unplugin-swc';
 
+// Fixtures compiled with standard (TC39) decorators rather than the legacy decorators used elsewhere
+const standardDecoratorFixtures = /\.standard\.ts$/;
+
 export default defineConfig({
   test: {
     environment: 'node',
@@ -11,5 +15,29 @@ export default defineConfig({
       exclude: ['**/src/index.ts', '**/src/server.ts'],
     },
   },
-  plugins: [swc.vite()],
+  plugins: [
+    {
+      name: 'standard-decorators',
+      enforce: 'pre',
+      transform(code, id) {
+        if (!standardDecoratorFixtures.test(id)) {
+          return null;
+        }
+
+        const { outputText, sourceMapText } = ts.transpileModule(code, {
+          fileName: id,
+          compilerOptions: {
+            target: ts.ScriptTarget.ES2022,
+            module: ts.ModuleKind.ESNext,
+            experimentalDecorators: false,
+            emitDecoratorMetadata: false,
+            sourceMap: true,
+          },
+        });
+
+        return { code: outputText, map: sourceMapText };
+      },
+    },
+    swc.vite({ exclude: [/node_modules/, standardDecoratorFixtures] }),
+  ],
 });